@@ -0,0 +1,405 @@
+/**
+ * Batch uploads
+ *
+ * Uploads several files at once, including the documents inside ZIP
+ * archives, grouped in a `doclayer_batches` row (see migrations/016). Files
+ * are validated and ingested independently, so one bad file does not fail the
+ * others; the result lists the outcome of every file. Needs a Supabase client
+ * with the service role key.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DoclayerClient } from './doclayer-client.ts';
+import { uploadWithOriginal, type DedupeMode, type StoredDocumentOptions } from './storage.ts';
+import {
+  DEFAULT_MAX_UPLOAD_BYTES,
+  UploadValidationError,
+  validateUpload,
+  type UploadValidationOptions,
+} from './upload-validation.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BatchUploadOptions extends StoredDocumentOptions {
+  /** Files to upload; `.zip` archives are replaced by the files they contain */
+  files: File[];
+  /** Number of files ingested at the same time (default: 4) */
+  concurrency?: number;
+  /** Handling of files already processed in the project (default: `force`) */
+  dedupe?: DedupeMode;
+  /** Checks for every file, including extracted ones (default: the validator's defaults); false to skip */
+  validation?: UploadValidationOptions | false;
+  /** Maximum number of files after extracting archives (default: 100) */
+  maxFiles?: number;
+  /** Maximum uncompressed size of the files of all archives in the batch together (default: 200 MB) */
+  maxArchiveBytes?: number;
+}
+
+export type BatchFileStatus = 'uploaded' | 'duplicate' | 'failed';
+
+export interface BatchFileResult {
+  filename: string;
+  /** Archive the file was extracted from */
+  archive?: string;
+  status: BatchFileStatus;
+  jobId?: string;
+  /** `doclayer_documents.id`; for skipped duplicates, the existing document */
+  documentId?: string;
+  duplicateOf?: string;
+  error?: string;
+  /** Validation failure code, see {@link UploadValidationError} */
+  code?: string;
+}
+
+export interface BatchUploadResult {
+  /** `doclayer_batches.id` */
+  batchId: string;
+  total: number;
+  uploaded: number;
+  duplicates: number;
+  failed: number;
+  files: BatchFileResult[];
+}
+
+export interface ExtractZipOptions {
+  /** Maximum number of files in the archive (default: 100) */
+  maxEntries?: number;
+  /** Maximum uncompressed size of a file (default: 50 MB) */
+  maxEntryBytes?: number;
+  /** Maximum uncompressed size of all files together (default: 200 MB) */
+  maxTotalBytes?: number;
+}
+
+// A file in a ZIP archive, inflated only when it is uploaded
+interface ZipEntry {
+  name: string;
+  filename: string;
+  method: number;
+  size: number;
+  data: Uint8Array;
+}
+
+interface BatchItem {
+  file?: File;
+  entry?: ZipEntry;
+  archive?: string;
+  failure?: BatchFileResult;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_FILES = 100;
+const DEFAULT_MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+// ============================================================================
+// Batch Upload
+// ============================================================================
+
+/**
+ * Upload files as one batch: creates the `doclayer_batches` row, then stores
+ * and ingests the files with bounded concurrency. The batch completes through
+ * its documents' webhooks once every file has settled.
+ *
+ * @example
+ * ```ts
+ * const result = await uploadBatch(supabaseAdmin, doclayer, {
+ *   files: formData.getAll('file') as File[],
+ *   projectId: 'my-project',
+ *   ownerId: user.id,
+ * });
+ * const failed = result.files.filter((file) => file.status === 'failed');
+ * ```
+ */
+export async function uploadBatch(
+  supabase: SupabaseClient,
+  doclayer: Pick<DoclayerClient, 'ingest'>,
+  options: BatchUploadOptions
+): Promise<BatchUploadResult> {
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  const validation = options.validation === false ? null : options.validation ?? {};
+  const items = await expandArchives(options.files, {
+    maxEntries: maxFiles,
+    maxEntryBytes: validation?.maxBytes ?? DEFAULT_MAX_UPLOAD_BYTES,
+    maxTotalBytes: options.maxArchiveBytes ?? DEFAULT_MAX_ARCHIVE_BYTES,
+  });
+
+  if (items.length > maxFiles) {
+    throw new UploadValidationError(`A batch can contain at most ${maxFiles} files`, 413, 'too_many_files', {
+      file_count: items.length,
+      max_files: maxFiles,
+    });
+  }
+
+  const { data: batch, error: batchError } = await supabase
+    .from('doclayer_batches')
+    .insert({
+      batch_id: `upload:${crypto.randomUUID()}`,
+      project_id: options.projectId,
+      total_documents: items.length,
+      status: 'processing',
+      started_at: new Date().toISOString(),
+      ...(options.ownerId && { owner_id: options.ownerId }),
+      ...(options.orgId !== undefined && { org_id: options.orgId }),
+    })
+    .select('id')
+    .single();
+
+  if (batchError) throw batchError;
+
+  let skipped = 0;
+  const files = await mapWithConcurrency(items, options.concurrency ?? DEFAULT_CONCURRENCY, async (item) => {
+    if (item.failure) return item.failure;
+
+    const base = { filename: item.file?.name ?? item.entry!.filename, ...(item.archive && { archive: item.archive }) };
+    try {
+      // Extracted files are inflated one at a time per worker, not all up front
+      const file = item.file ?? (await inflateEntry(item.entry!));
+      const validated = validation ? await validateUpload(file, validation) : null;
+      const upload = await uploadWithOriginal(supabase, doclayer, {
+        file,
+        projectId: options.projectId,
+        agentId: options.agentId,
+        bucket: options.bucket,
+        ownerId: options.ownerId,
+        orgId: options.orgId,
+        contentType: validated?.mimeType,
+        dedupe: options.dedupe,
+        uploadBatchId: batch.id,
+      });
+
+      // A skipped duplicate returns the existing document instead of one in the batch
+      if (upload.duplicateOf && upload.documentId === upload.duplicateOf) skipped++;
+
+      return {
+        ...base,
+        status: upload.duplicateOf ? 'duplicate' : 'uploaded',
+        jobId: upload.job.job_id,
+        documentId: upload.documentId,
+        ...(upload.duplicateOf && { duplicateOf: upload.duplicateOf }),
+      } satisfies BatchFileResult;
+    } catch (error) {
+      return failedFile(base, error);
+    }
+  });
+
+  const failed = files.filter((file) => file.status === 'failed').length;
+
+  // Files without a document in the batch count towards its progress directly
+  const { error: countError } = await supabase
+    .from('doclayer_batches')
+    .update({ rejected_count: failed, skipped_count: skipped })
+    .eq('id', batch.id);
+  if (countError) throw countError;
+
+  const { error: refreshError } = await supabase.rpc('refresh_doclayer_upload_batch', { p_batch_id: batch.id });
+  if (refreshError) throw refreshError;
+
+  return {
+    batchId: batch.id,
+    total: files.length,
+    uploaded: files.filter((file) => file.status === 'uploaded').length,
+    duplicates: files.filter((file) => file.status === 'duplicate').length,
+    failed,
+    files,
+  };
+}
+
+/**
+ * Whether a file is a ZIP archive to expand, judged by its extension (Office
+ * documents are ZIP files too)
+ */
+export function isZipArchive(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip');
+}
+
+// ============================================================================
+// ZIP Archives
+// ============================================================================
+
+/**
+ * Extract the files of a ZIP archive, skipping folders and hidden files such
+ * as `__MACOSX/`. Throws an {@link UploadValidationError} for archives that
+ * are corrupt, encrypted, too large or have too many files.
+ */
+export async function extractZip(archive: Blob, options: ExtractZipOptions = {}): Promise<File[]> {
+  const files: File[] = [];
+  for (const entry of await readZipEntries(archive, options)) {
+    files.push(await inflateEntry(entry));
+  }
+  return files;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Read the central directory of a ZIP archive without inflating anything.
+// Every entry must inflate to exactly its declared size, so the limits on
+// declared sizes bound the bytes actually decompressed (zip bombs).
+async function readZipEntries(archive: Blob, options: ExtractZipOptions): Promise<ZipEntry[]> {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_FILES;
+  const maxEntryBytes = options.maxEntryBytes ?? DEFAULT_MAX_UPLOAD_BYTES;
+  const maxTotalBytes = options.maxTotalBytes ?? DEFAULT_MAX_ARCHIVE_BYTES;
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const invalid = (message: string) => new UploadValidationError(message, 400, 'invalid_archive');
+
+  // The end of central directory record is followed by a comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw invalid('File is not a ZIP archive');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== 0x02014b50) {
+      throw invalid('ZIP archive is corrupt');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const headerLength = 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += headerLength;
+
+    const filename = name.split('/').pop()!;
+    if (name.endsWith('/') || name.startsWith('__MACOSX/') || filename.startsWith('.')) continue;
+
+    if (flags & 0x1) throw invalid(`${name} is encrypted`);
+    if (method !== 0 && method !== 8) throw invalid(`${name} uses an unsupported compression method`);
+    if (compressedSize === 0xffffffff || size === 0xffffffff) throw invalid('ZIP64 archives are not supported');
+
+    if (entries.length >= maxEntries) {
+      throw new UploadValidationError(`Archive contains more than ${maxEntries} files`, 413, 'too_many_files', {
+        max_files: maxEntries,
+      });
+    }
+    if (size > maxEntryBytes) {
+      throw new UploadValidationError(`${name} exceeds the maximum size of ${maxEntryBytes} bytes`, 413, 'file_too_large', {
+        entry: name,
+        size,
+        max_bytes: maxEntryBytes,
+      });
+    }
+
+    totalBytes += size;
+    if (totalBytes > maxTotalBytes) {
+      throw new UploadValidationError(
+        `Archive contents exceed the maximum total size of ${maxTotalBytes} bytes`,
+        413,
+        'archive_too_large',
+        { max_bytes: maxTotalBytes }
+      );
+    }
+
+    if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== 0x04034b50) {
+      throw invalid('ZIP archive is corrupt');
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataStart + compressedSize > bytes.length) throw invalid('ZIP archive is corrupt');
+
+    entries.push({ name, filename, method, size, data: bytes.subarray(dataStart, dataStart + compressedSize) });
+  }
+
+  return entries;
+}
+
+async function inflateEntry(entry: ZipEntry): Promise<File> {
+  const contents = entry.method === 0 ? entry.data.slice() : await inflateRaw(entry.data.slice(), entry.size);
+  if (contents === null || contents.length !== entry.size) {
+    throw new UploadValidationError(`${entry.name} could not be decompressed`, 400, 'invalid_archive');
+  }
+  return new File([contents], entry.filename);
+}
+
+// Replace archives by their entries; the total size limit applies to all
+// archives together, so an archive that would exceed it is rejected
+async function expandArchives(files: File[], options: ExtractZipOptions): Promise<BatchItem[]> {
+  const items: BatchItem[] = [];
+  let remainingBytes = options.maxTotalBytes ?? DEFAULT_MAX_ARCHIVE_BYTES;
+
+  for (const file of files) {
+    if (!isZipArchive(file)) {
+      items.push({ file });
+      continue;
+    }
+
+    try {
+      const entries = await readZipEntries(file, { ...options, maxTotalBytes: remainingBytes });
+      remainingBytes -= entries.reduce((total, entry) => total + entry.size, 0);
+      items.push(...entries.map((entry) => ({ entry, archive: file.name })));
+    } catch (error) {
+      items.push({ failure: failedFile({ filename: file.name }, error) });
+    }
+  }
+
+  return items;
+}
+
+function failedFile(base: Pick<BatchFileResult, 'filename' | 'archive'>, error: unknown): BatchFileResult {
+  return {
+    ...base,
+    status: 'failed',
+    error: error instanceof Error ? error.message : String(error),
+    ...(error instanceof UploadValidationError && { code: error.code }),
+  };
+}
+
+// Run `fn` over the items with at most `limit` calls in flight, keeping order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
+// Inflate a raw DEFLATE stream, giving up once it exceeds maxBytes
+async function inflateRaw(data: BlobPart, maxBytes: number) {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.length;
+      if (total > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  } catch {
+    return null;
+  }
+
+  const output = new Uint8Array(total);
+  let position = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, position);
+    position += chunk.length;
+  }
+  return output;
+}
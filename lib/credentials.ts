@@ -0,0 +1,140 @@
+/**
+ * Organization- and project-scoped Doclayer credentials
+ *
+ * Resolves the Doclayer API key of a tenant from `doclayer_credentials`
+ * (secrets in Supabase Vault, see migrations/013) and routes webhook
+ * deliveries to the tenant whose signing secret verified them. All functions
+ * need a Supabase client with the service role key.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createDoclayerClient, type DoclayerClient } from './doclayer-client.ts';
+import type { WebhookSecret } from './webhooks.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DoclayerCredentials {
+  credentialId: string;
+  orgId: string | null;
+  projectId: string | null;
+  apiKey: string;
+  baseUrl?: string;
+}
+
+export interface CredentialScope {
+  orgId?: string | null;
+  projectId?: string | null;
+}
+
+/**
+ * The tenant a webhook delivery belongs to
+ */
+export interface WebhookTenant {
+  /** Organization that synced rows are assigned to */
+  orgId: string | null;
+  /** Doclayer credentials of the tenant's account */
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+interface CredentialRow {
+  credential_id: string;
+  org_id: string | null;
+  project_id: string | null;
+  api_key: string;
+  base_url: string | null;
+}
+
+// Prefix of the secret IDs returned by loadTenantWebhookSecrets
+const TENANT_SECRET_PREFIX = 'credential:';
+
+// ============================================================================
+// Resolver
+// ============================================================================
+
+/**
+ * Look up the most specific credentials for an organization and/or project:
+ * organization + project, then project, then organization. Returns null when
+ * none are stored.
+ */
+export async function resolveDoclayerCredentials(
+  supabase: SupabaseClient,
+  scope: CredentialScope & { credentialId?: string }
+): Promise<DoclayerCredentials | null> {
+  const { data, error } = await supabase.rpc('resolve_doclayer_credentials', {
+    p_org_id: scope.orgId ?? null,
+    p_project_id: scope.projectId ?? null,
+    p_credential_id: scope.credentialId ?? null,
+  });
+
+  if (error) throw error;
+
+  const row = (data as CredentialRow[] | null)?.[0];
+  if (!row) return null;
+
+  return {
+    credentialId: row.credential_id,
+    orgId: row.org_id,
+    projectId: row.project_id,
+    apiKey: row.api_key,
+    baseUrl: row.base_url ?? undefined,
+  };
+}
+
+/**
+ * Create a Doclayer client with the tenant's credentials, falling back to the
+ * `DOCLAYER_API_KEY` environment variable when none are stored.
+ *
+ * @example
+ * ```ts
+ * const doclayer = await createTenantDoclayerClient(supabaseAdmin, { orgId, projectId });
+ * await doclayer.ingest.upload({ file, projectId });
+ * ```
+ */
+export async function createTenantDoclayerClient(
+  supabase: SupabaseClient,
+  scope: CredentialScope
+): Promise<DoclayerClient> {
+  const credentials = await resolveDoclayerCredentials(supabase, scope);
+  return createDoclayerClient(credentials ?? undefined);
+}
+
+// ============================================================================
+// Webhook Routing
+// ============================================================================
+
+/**
+ * Signing secrets of every tenant, for `createDoclayerWebhookHandler`'s
+ * `secrets`. The ID of the secret that verifies a delivery identifies the
+ * tenant (see {@link resolveWebhookTenant}).
+ */
+export async function loadTenantWebhookSecrets(supabase: SupabaseClient): Promise<WebhookSecret[]> {
+  const { data, error } = await supabase.rpc('list_doclayer_webhook_secrets');
+
+  if (error) throw error;
+
+  return ((data ?? []) as { credential_id: string; secret: string }[]).map((row) => ({
+    id: `${TENANT_SECRET_PREFIX}${row.credential_id}`,
+    secret: row.secret,
+  }));
+}
+
+/**
+ * The tenant of a delivery verified with one of the secrets from
+ * {@link loadTenantWebhookSecrets}, or null for the global secret.
+ */
+export async function resolveWebhookTenant(
+  supabase: SupabaseClient,
+  secretId: string | undefined
+): Promise<WebhookTenant | null> {
+  if (!secretId?.startsWith(TENANT_SECRET_PREFIX)) return null;
+
+  const credentials = await resolveDoclayerCredentials(supabase, {
+    credentialId: secretId.slice(TENANT_SECRET_PREFIX.length),
+  });
+  if (!credentials) return null;
+
+  return { orgId: credentials.orgId, apiKey: credentials.apiKey, baseUrl: credentials.baseUrl };
+}
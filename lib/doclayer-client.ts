@@ -19,6 +19,34 @@ declare const Deno: {
 export interface DoclayerConfig {
   apiKey: string;
   baseUrl?: string;
+  /** Retry policy for failed requests. Pass `false` to disable retries. */
+  retry?: RetryOptions | false;
+  /** Default timeout per call in milliseconds, including retries (default: 60000, 0 disables) */
+  timeoutMs?: number;
+}
+
+export interface RequestOptions {
+  /** Abort the call when this signal fires */
+  signal?: AbortSignal;
+  /** Override the client's default timeout for this call, in milliseconds */
+  timeoutMs?: number;
+}
+
+export interface RetryOptions {
+  /** Total number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Base delay in milliseconds for exponential backoff (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+  /** Randomize delays to avoid thundering herds (default: true) */
+  jitter?: boolean;
+  /** HTTP statuses that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatuses?: number[];
+  /** HTTP methods that may be retried (default: idempotent methods only) */
+  retryableMethods?: string[];
+  /** Honor the `Retry-After` response header when present (default: true) */
+  respectRetryAfter?: boolean;
 }
 
 export interface UploadOptions {
@@ -40,6 +68,57 @@ export interface PresignResponse {
   expires_in: number;
 }
 
+export interface UploadProgress {
+  /** Bytes sent so far */
+  loaded: number;
+  /** Total size of the file in bytes */
+  total: number;
+}
+
+export interface PresignedUploadOptions {
+  file: Blob | File;
+  projectId: string;
+  /** Defaults to `file.name` when the file is a File */
+  filename?: string;
+  /** Defaults to `file.type`, then `application/octet-stream` */
+  contentType?: string;
+  /** Called as bytes are streamed to storage */
+  onProgress?: (progress: UploadProgress) => void;
+  /** How many times to presign when the upload URL expires or is rejected (default: 3) */
+  maxPresignAttempts?: number;
+}
+
+export interface DownloadOptions {
+  /** Defaults to the `Content-Disposition` filename, then the last segment of the URL */
+  filename?: string;
+  /** Maximum size of the file in bytes (default: 50 MB) */
+  maxBytes?: number;
+  /** Accepted `Content-Type` response headers (default: {@link DEFAULT_DOWNLOAD_CONTENT_TYPES}) */
+  allowedContentTypes?: string[];
+  /** Redirects to follow; every hop is checked like the original URL (default: 3) */
+  maxRedirects?: number;
+  /**
+   * Resolve a hostname to its IP addresses, so hosts pointing at private
+   * networks are blocked too (e.g. with `Deno.resolveDns`). Without it only
+   * URLs with IP addresses are fetched; hostnames are refused.
+   *
+   * `fetch` resolves the hostname again when it connects, so a host that
+   * changes its DNS answer between the two lookups (DNS rebinding) can still
+   * reach a private address. Run downloads behind an egress proxy or firewall
+   * when that matters.
+   */
+  resolveHost?: (hostname: string) => Promise<string[]>;
+  /** Allow private, loopback and link-local addresses (default: false) */
+  allowPrivateNetworks?: boolean;
+}
+
+export interface UploadFromUrlOptions extends DownloadOptions {
+  /** `http(s)` URL of the document, e.g. a presigned S3 link */
+  url: string;
+  projectId: string;
+  agentId?: string;
+}
+
 export interface IngestionJob {
   job_id: string;
   document_id?: string;
@@ -51,6 +130,30 @@ export interface IngestionJob {
   error_message?: string;
 }
 
+export interface WaitForCompletionOptions {
+  /** Initial delay between polls in milliseconds (default: 1000) */
+  pollInterval?: number;
+  /** Upper bound for the delay between polls in milliseconds (default: 10000) */
+  maxPollInterval?: number;
+  /** Give up after this many milliseconds (default: 300000, 0 disables) */
+  timeout?: number;
+  /** Abort waiting when this signal fires */
+  signal?: AbortSignal;
+  /** Called with the job after every poll */
+  onProgress?: (job: IngestionJob) => void;
+  /** Fetch the processed Document once the job completes */
+  includeDocument?: boolean;
+  /** Fetch the extractions once the job completes */
+  includeExtractions?: boolean;
+}
+
+export interface CompletedJob extends IngestionJob {
+  /** Present when `includeDocument` was set */
+  document?: Document;
+  /** Present when `includeExtractions` was set */
+  extractions?: Extraction[];
+}
+
 export interface Document {
   id: string;
   job_id: string;
@@ -80,11 +183,59 @@ export interface Extraction {
   source_text?: string;
 }
 
+export type SearchFilterValue = string | number | boolean;
+
+/** Document fields that can be filtered on, or `metadata.<key>` for chunk and extraction metadata */
+export type SearchFilterField =
+  | 'filename'
+  | 'file_type'
+  | 'status'
+  | 'page_count'
+  | 'created_at'
+  | 'updated_at'
+  | `metadata.${string}`;
+
+export interface SearchRange {
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+}
+
+/**
+ * A filter on one field: an exact value, a list of allowed values, or a
+ * range (numbers or ISO dates). All filters must match.
+ *
+ * @example
+ * ```ts
+ * [
+ *   { field: 'file_type', in: ['pdf', 'docx'] },
+ *   { field: 'created_at', range: { gte: '2024-01-01' } },
+ *   { field: 'metadata.category', eq: 'contract' },
+ * ]
+ * ```
+ */
+export type SearchFilter =
+  | { field: SearchFilterField; eq: SearchFilterValue }
+  | { field: SearchFilterField; in: SearchFilterValue[] }
+  | { field: SearchFilterField; range: SearchRange };
+
+export type SearchInclude = 'document' | 'neighbors';
+
 export interface SearchOptions {
   query: string;
   projectId?: string;
   limit?: number;
   threshold?: number;
+  /** Only search these documents */
+  documentIds?: string[];
+  filters?: SearchFilter[];
+  /** Attach the parent Document and/or the chunks around each hit */
+  include?: SearchInclude[];
+  /** Chunks on each side returned with `include: ['neighbors']` (default: 1) */
+  neighbors?: number;
+  /** Rerank the results with Doclayer's cross-encoder; slower but more precise */
+  rerank?: boolean;
 }
 
 export interface SearchResult {
@@ -93,6 +244,12 @@ export interface SearchResult {
   content: string;
   score: number;
   metadata?: Record<string, unknown>;
+  /** Score before reranking, when `rerank` was set */
+  original_score?: number;
+  /** Present when `include` has 'document' */
+  document?: Document;
+  /** Present when `include` has 'neighbors', in chunk order */
+  neighbors?: { before: DocumentChunk[]; after: DocumentChunk[] };
 }
 
 export interface AgentTemplate {
@@ -129,6 +286,599 @@ export interface Webhook {
   secret?: string; // Only returned on creation
 }
 
+export interface RotateSecretOptions {
+  /** New secret to install; generated by Doclayer when omitted */
+  secret?: string;
+  /** How long Doclayer keeps signing with the previous secret as a fallback (default: 86400) */
+  gracePeriodSeconds?: number;
+}
+
+export interface WebhookSecretRotation {
+  webhook_id: string;
+  /** The new signing secret */
+  secret: string;
+  /** When the previous secret stops being accepted */
+  previous_secret_expires_at: string;
+}
+
+export interface PageOptions {
+  /** Page size */
+  limit?: number;
+  /** Cursor returned as `nextCursor` by the previous page */
+  cursor?: string;
+}
+
+export interface Page<T> {
+  data: T[];
+  /** Cursor for the next page, or `null` when this is the last page */
+  nextCursor: string | null;
+}
+
+export interface IterateOptions {
+  /** Page size used while iterating */
+  pageSize?: number;
+  /** Stop after yielding this many items */
+  maxItems?: number;
+}
+
+export interface ListJobsOptions {
+  status?: string;
+}
+
+export interface ListDocumentsOptions {
+  projectId?: string;
+  status?: string;
+}
+
+// ============================================================================
+// Retry & Timeout Helpers
+// ============================================================================
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  jitter: true,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  respectRetryAfter: true,
+};
+
+function resolveRetryOptions(retry: RetryOptions | false | undefined): Required<RetryOptions> {
+  if (retry === false) {
+    return { ...DEFAULT_RETRY, maxAttempts: 1 };
+  }
+  return {
+    ...DEFAULT_RETRY,
+    ...retry,
+    retryableMethods: (retry?.retryableMethods ?? DEFAULT_RETRY.retryableMethods).map((m) =>
+      m.toUpperCase()
+    ),
+  };
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+function computeBackoff(attempt: number, retry: Required<RetryOptions>): number {
+  const exponential = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** (attempt - 1));
+  // Full jitter: pick a random delay in [0, exponential]
+  return retry.jitter ? Math.random() * exponential : exponential;
+}
+
+/**
+ * Run `task` with a signal that aborts when the caller's signal fires or the
+ * deadline passes. Timeouts reject with DoclayerTimeoutError; caller aborts
+ * reject with the caller's abort reason.
+ */
+async function withDeadline<T>(
+  timeoutMs: number,
+  callerSignal: AbortSignal | undefined,
+  task: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  const onCallerAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onCallerAbort();
+  } else {
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+
+  const signal = controller.signal;
+
+  try {
+    return await task(signal);
+  } catch (err) {
+    if (timedOut) {
+      throw new DoclayerTimeoutError(timeoutMs);
+    }
+    if (signal.aborted && !(err instanceof DoclayerError)) {
+      // Caller cancelled: surface their abort reason unchanged
+      throw signal.reason ?? err;
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ============================================================================
+// Pagination Helpers
+// ============================================================================
+
+/**
+ * Normalize a list response into a Page. Accepts bare arrays (single page)
+ * as well as `{ data | items, next_cursor }` envelopes.
+ */
+function toPage<T>(response: T[] | Record<string, unknown>): Page<T> {
+  if (Array.isArray(response)) {
+    return { data: response, nextCursor: null };
+  }
+  const data = (response.data ?? response.items ?? []) as T[];
+  const nextCursor = (response.next_cursor ?? response.nextCursor ?? null) as string | null;
+  return { data, nextCursor: nextCursor || null };
+}
+
+function buildQuery(params: Record<string, string | number | undefined>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') search.append(key, String(value));
+  }
+  return search.toString() ? `?${search}` : '';
+}
+
+/**
+ * Walk every page lazily. The next page is only requested once the consumer
+ * has pulled all items of the current one.
+ */
+async function* paginate<T>(
+  fetchPage: (cursor: string | undefined) => Promise<Page<T>>,
+  maxItems = Infinity
+): AsyncGenerator<T, void, undefined> {
+  let cursor: string | undefined;
+  let yielded = 0;
+
+  while (yielded < maxItems) {
+    const page = await fetchPage(cursor);
+    for (const item of page.data) {
+      if (yielded >= maxItems) return;
+      yield item;
+      yielded++;
+    }
+    if (!page.nextCursor || page.data.length === 0) return;
+    cursor = page.nextCursor;
+  }
+}
+
+// ============================================================================
+// Search Helpers
+// ============================================================================
+
+/**
+ * Request body shared by vector and graph search
+ */
+function searchBody(options: SearchOptions): Record<string, unknown> {
+  const include = options.include ?? [];
+
+  return {
+    query: options.query,
+    project_id: options.projectId,
+    limit: options.limit || 10,
+    document_ids: options.documentIds?.length ? options.documentIds : undefined,
+    filters: options.filters?.length ? options.filters.map(toSearchFilter) : undefined,
+    include: include.length ? include : undefined,
+    neighbor_window: include.includes('neighbors') ? options.neighbors ?? 1 : undefined,
+    rerank: options.rerank || undefined,
+  };
+}
+
+function toSearchFilter(filter: SearchFilter): Record<string, unknown> {
+  if ('eq' in filter) return { field: filter.field, op: 'eq', value: filter.eq };
+  if ('in' in filter) return { field: filter.field, op: 'in', value: filter.in };
+  return { field: filter.field, op: 'range', value: filter.range };
+}
+
+// ============================================================================
+// Upload Helpers
+// ============================================================================
+
+/**
+ * Wrap a blob in a stream that reports how many bytes have been read
+ */
+function progressStream(
+  file: Blob,
+  onProgress: (progress: UploadProgress) => void
+): ReadableStream<Uint8Array> {
+  const total = file.size;
+  let loaded = 0;
+  const reader = file.stream().getReader();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      loaded += value.byteLength;
+      controller.enqueue(value);
+      onProgress({ loaded, total });
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * PUT a file to a presigned storage URL. With progress reporting, browsers
+ * upload through XMLHttpRequest (streaming request bodies can't carry the
+ * `Content-Length` presigned PUTs require there) and Node.js/Deno stream the
+ * blob; otherwise it is sent as-is.
+ */
+async function putToPresignedUrl(
+  url: string,
+  file: Blob,
+  contentType: string,
+  onProgress?: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<Response> {
+  if (onProgress && typeof XMLHttpRequest !== 'undefined') {
+    return putWithXhr(url, file, contentType, onProgress, signal);
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': contentType };
+  let body: BodyInit = file;
+
+  if (onProgress) {
+    headers['Content-Length'] = String(file.size);
+    body = progressStream(file, onProgress);
+  }
+
+  try {
+    return await fetch(url, {
+      method: 'PUT',
+      headers,
+      body,
+      signal,
+      // Required by Node.js and Deno for streaming request bodies
+      duplex: 'half',
+    } as RequestInit);
+  } catch (err) {
+    if (signal?.aborted) throw signal.reason ?? err;
+    throw new DoclayerNetworkError(err instanceof Error ? err.message : 'Upload failed', err);
+  }
+}
+
+function putWithXhr(
+  url: string,
+  file: Blob,
+  contentType: string,
+  onProgress: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', contentType);
+    xhr.upload.onprogress = (event) => onProgress({ loaded: event.loaded, total: file.size });
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', onAbort);
+      // Statuses like 204 must not have a body
+      const body = [204, 205, 304].includes(xhr.status) ? null : xhr.responseText;
+      resolve(new Response(body, { status: xhr.status }));
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new DoclayerNetworkError('Upload failed'));
+    };
+    xhr.onabort = () => reject(signal?.reason ?? new DoclayerNetworkError('Upload aborted'));
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send(file);
+  });
+}
+
+// ============================================================================
+// Remote Files
+// ============================================================================
+
+export const DEFAULT_DOWNLOAD_CONTENT_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/plain',
+  'image/png',
+  'image/jpeg',
+  // Object stores often serve files without a specific type
+  'application/octet-stream',
+  'binary/octet-stream',
+];
+
+/**
+ * Download a document from a URL on the public internet. Guards against
+ * server-side request forgery: only `http(s)` URLs whose hosts are not on
+ * private networks are fetched (redirects included), and the response must
+ * have an allowed content type and stay under the size limit.
+ *
+ * Hostnames are checked with `resolveHost` before `fetch` connects, which
+ * resolves them again; the connection can't be pinned to the checked address,
+ * so this doesn't stop DNS rebinding.
+ *
+ * @example
+ * ```ts
+ * const file = await downloadRemoteFile('https://example.com/contract.pdf', { maxBytes: 20 * 1024 * 1024 });
+ * ```
+ */
+export async function downloadRemoteFile(
+  url: string,
+  options: DownloadOptions = {},
+  signal?: AbortSignal
+): Promise<File> {
+  const maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+  const maxRedirects = options.maxRedirects ?? 3;
+  const allowedTypes = (options.allowedContentTypes ?? DEFAULT_DOWNLOAD_CONTENT_TYPES).map((type) =>
+    type.toLowerCase()
+  );
+
+  let target = await checkRemoteUrl(url, options);
+  let response: Response;
+
+  for (let redirects = 0; ; redirects++) {
+    try {
+      response = await fetch(target, { redirect: 'manual', signal });
+    } catch (err) {
+      if (signal?.aborted) throw signal.reason ?? err;
+      throw new DoclayerDownloadError(
+        `Download failed: ${err instanceof Error ? err.message : 'network error'}`,
+        502,
+        'download_failed',
+        { url: target.href }
+      );
+    }
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) break;
+
+    await response.body?.cancel().catch(() => undefined);
+    if (redirects >= maxRedirects) {
+      throw new DoclayerDownloadError(`Too many redirects (max ${maxRedirects})`, 502, 'download_failed');
+    }
+    target = await checkRemoteUrl(new URL(location, target).href, options);
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel().catch(() => undefined);
+    throw new DoclayerDownloadError(`Download failed with status ${response.status}`, 502, 'download_failed', {
+      status: response.status,
+    });
+  }
+
+  const contentType = (response.headers.get('content-type') ?? 'application/octet-stream')
+    .split(';')[0]
+    .trim()
+    .toLowerCase();
+  if (!allowedTypes.includes(contentType)) {
+    await response.body?.cancel().catch(() => undefined);
+    throw new DoclayerDownloadError(`Content type ${contentType} is not allowed`, 415, 'unsupported_content_type', {
+      content_type: contentType,
+      allowed_types: allowedTypes,
+    });
+  }
+
+  const tooLarge = () =>
+    new DoclayerDownloadError(`File exceeds the maximum size of ${maxBytes} bytes`, 413, 'file_too_large', {
+      max_bytes: maxBytes,
+    });
+
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel().catch(() => undefined);
+    throw tooLarge();
+  }
+
+  // Content-Length may be missing or wrong, so the body is counted as it arrives
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel().catch(() => undefined);
+        throw tooLarge();
+      }
+      chunks.push(value);
+    }
+  }
+
+  const filename =
+    options.filename ||
+    contentDispositionFilename(response.headers.get('content-disposition')) ||
+    urlFilename(target) ||
+    'document';
+
+  return new File(chunks as BlobPart[], filename, { type: contentType });
+}
+
+// Reject URLs that are not http(s) or point at private networks
+async function checkRemoteUrl(url: string, options: DownloadOptions): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new DoclayerDownloadError('Invalid URL', 400, 'url_not_allowed');
+  }
+
+  const blocked = (reason: string) =>
+    new DoclayerDownloadError(`URL not allowed: ${reason}`, 400, 'url_not_allowed', { url: parsed.href });
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') throw blocked('only http(s) URLs are supported');
+  if (parsed.username || parsed.password) throw blocked('credentials in URLs are not supported');
+  if (options.allowPrivateNetworks) return parsed;
+
+  // `localhost.` is the same host as `localhost`
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').replace(/\.+$/, '').toLowerCase();
+  if (hostname === 'localhost' || /\.(localhost|local|internal)$/.test(hostname)) {
+    throw blocked(`${hostname} is a local host`);
+  }
+
+  const isAddress = /^[\d.]+$/.test(hostname) || hostname.includes(':');
+  let addresses = [hostname];
+  if (!isAddress) {
+    // Any hostname may point at a private network, e.g. through wildcard DNS
+    if (!options.resolveHost) throw blocked(`${hostname} cannot be checked without resolveHost`);
+    addresses = await options.resolveHost(hostname).catch(() => []);
+    if (addresses.length === 0) throw blocked(`${hostname} could not be resolved`);
+  }
+
+  for (const address of addresses) {
+    if (isPrivateAddress(address)) {
+      throw blocked(isAddress ? `${hostname} is a private address` : `${hostname} resolves to a private address`);
+    }
+  }
+
+  return parsed;
+}
+
+// Loopback, private, link-local, shared, multicast and reserved ranges
+function isPrivateAddress(address: string): boolean {
+  if (address.includes(':')) {
+    const groups = ipv6Groups(address);
+    if (!groups) return true;
+
+    const [first, second] = groups;
+    const embeddedPrefix = groups.slice(0, 5).every((group) => group === 0);
+    return (
+      // ::/96 (IPv4-compatible, including :: and ::1) and ::ffff:0:0/96 (IPv4-mapped)
+      (embeddedPrefix && (groups[5] === 0 || groups[5] === 0xffff)) ||
+      // 64:ff9b::/96 and 64:ff9b:1::/48 (NAT64)
+      (first === 0x64 && second === 0xff9b) ||
+      // 2002::/16 (6to4) with a private IPv4 address
+      (first === 0x2002 && isPrivateAddress(`${second >> 8}.${second & 0xff}.${groups[2] >> 8}.${groups[2] & 0xff}`)) ||
+      // fc00::/7 (unique local), fe80::/10 (link-local), fec0::/10 (site-local), ff00::/8 (multicast)
+      (first & 0xfe00) === 0xfc00 ||
+      (first & 0xff80) === 0xfe80 ||
+      (first & 0xff00) === 0xff00
+    );
+  }
+
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+// The eight 16-bit groups of an IPv6 address, or null if it is malformed
+function ipv6Groups(address: string): number[] | null {
+  let ip = address.toLowerCase().replace(/%.*$/, '');
+
+  // A trailing dotted IPv4 address makes up the last two groups
+  const ipv4 = ip.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b, c, d] = ipv4.slice(1).map(Number);
+    ip = `${ip.slice(0, ipv4.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+  const parse = (half: string) =>
+    half ? half.split(':').map((group) => (/^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN)) : [];
+  const head = parse(halves[0]);
+  const tail = halves.length === 2 ? parse(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (missing < 0 || (halves.length === 1 && missing !== 0)) return null;
+
+  const groups = [...head, ...new Array<number>(missing).fill(0), ...tail];
+  return groups.every(Number.isInteger) ? groups : null;
+}
+
+// Last path segment of a URL, undecoded if it is not valid percent-encoding
+function urlFilename(url: URL): string {
+  const segment = url.pathname.split('/').pop() || '';
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function contentDispositionFilename(header: string | null): string | undefined {
+  if (!header) return undefined;
+
+  const encoded = header.match(/filename\*\s*=\s*(?:UTF-8|utf-8)''([^;]+)/);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim());
+    } catch {
+      // Fall back to the plain filename
+    }
+  }
+
+  return header.match(/filename\s*=\s*"?([^";]+)"?/)?.[1].trim();
+}
+
 // ============================================================================
 // Client Implementation
 // ============================================================================
@@ -136,10 +886,14 @@ export interface Webhook {
 export class DoclayerClient {
   private apiKey: string;
   private baseUrl: string;
+  private retry: Required<RetryOptions>;
+  private timeoutMs: number;
 
   constructor(config: DoclayerConfig) {
     this.apiKey = config.apiKey;
     this.baseUrl = (config.baseUrl || 'https://api.doclayer.ai').replace(/\/$/, '');
+    this.retry = resolveRetryOptions(config.retry);
+    this.timeoutMs = config.timeoutMs ?? 60_000;
   }
 
   private async request<T>(
@@ -149,7 +903,7 @@ export class DoclayerClient {
       body?: unknown;
       headers?: Record<string, string>;
       formData?: FormData;
-    }
+    } & RequestOptions
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
     
@@ -162,22 +916,66 @@ export class DoclayerClient {
       headers['Content-Type'] = 'application/json';
     }
 
-    const response = await fetch(url, {
-      method,
-      headers,
-      body: options?.formData || (options?.body ? JSON.stringify(options.body) : undefined),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: response.statusText }));
-      throw new DoclayerError(
-        error.message || error.error?.message || 'Request failed',
-        response.status,
-        error
-      );
+    const body = options?.formData || (options?.body ? JSON.stringify(options.body) : undefined);
+    const canRetry = this.retry.retryableMethods.includes(method.toUpperCase());
+    const maxAttempts = canRetry ? Math.max(1, this.retry.maxAttempts) : 1;
+
+    // A single deadline covers every attempt, including backoff delays
+    const timeoutMs = options?.timeoutMs ?? this.timeoutMs;
+    let attempt = 0;
+
+    try {
+      return await withDeadline(timeoutMs, options?.signal, async (signal) => {
+        for (attempt = 1; ; attempt++) {
+          let response: Response;
+          try {
+            response = await fetch(url, { method, headers, body, signal });
+          } catch (err) {
+            if (signal.aborted) throw err;
+            // Network failure (DNS, connection reset, etc.)
+            if (attempt < maxAttempts) {
+              await sleep(computeBackoff(attempt, this.retry), signal);
+              continue;
+            }
+            const error = new DoclayerNetworkError(
+              err instanceof Error ? err.message : 'Network request failed',
+              err
+            );
+            error.attempts = attempt;
+            throw error;
+          }
+
+          if (response.ok) {
+            return (await response.json()) as T;
+          }
+
+          if (attempt < maxAttempts && this.retry.retryableStatuses.includes(response.status)) {
+            const retryAfter = this.retry.respectRetryAfter
+              ? parseRetryAfter(response.headers.get('Retry-After'))
+              : undefined;
+            // Drain the body so the connection can be reused
+            await response.body?.cancel().catch(() => undefined);
+            await sleep(
+              retryAfter !== undefined
+                ? Math.min(retryAfter, this.retry.maxDelayMs)
+                : computeBackoff(attempt, this.retry),
+              signal
+            );
+            continue;
+          }
+
+          const details = await response.json().catch(() => ({ message: response.statusText }));
+          const error = createErrorFromResponse(response, details);
+          error.attempts = attempt;
+          throw error;
+        }
+      });
+    } catch (err) {
+      if (err instanceof DoclayerTimeoutError) {
+        err.attempts = attempt;
+      }
+      throw err;
     }
-
-    return response.json();
   }
 
   // ============================================================================
@@ -188,20 +986,21 @@ export class DoclayerClient {
     /**
      * Get a presigned URL for direct file upload
      */
-    presign: async (options: PresignOptions): Promise<PresignResponse> => {
+    presign: async (options: PresignOptions, requestOptions?: RequestOptions): Promise<PresignResponse> => {
       return this.request<PresignResponse>('POST', '/api/v4/ingest/presign', {
         body: {
           filename: options.filename,
           content_type: options.contentType,
           project_id: options.projectId,
         },
+        ...requestOptions,
       });
     },
 
     /**
      * Upload a document for processing
      */
-    upload: async (options: UploadOptions): Promise<IngestionJob> => {
+    upload: async (options: UploadOptions, requestOptions?: RequestOptions): Promise<IngestionJob> => {
       const formData = new FormData();
       formData.append('file', options.file, options.filename);
       formData.append('project_id', options.projectId);
@@ -212,40 +1011,184 @@ export class DoclayerClient {
 
       return this.request<IngestionJob>('POST', '/api/v4/ingest', {
         formData,
+        ...requestOptions,
       });
     },
 
+    /**
+     * Upload a document directly to storage using a presigned URL.
+     *
+     * Avoids proxying large files through your own server or Edge Function.
+     * Expired or rejected upload URLs are re-presigned automatically; the job
+     * of the abandoned URL is cancelled.
+     */
+    uploadViaPresign: async (
+      options: PresignedUploadOptions,
+      requestOptions?: RequestOptions
+    ): Promise<IngestionJob> => {
+      const { file, projectId, onProgress, maxPresignAttempts = 3 } = options;
+      const filename = options.filename ?? ('name' in file ? file.name : undefined);
+      const contentType = options.contentType || file.type || 'application/octet-stream';
+
+      if (!filename) {
+        throw new Error('filename is required when uploading a Blob');
+      }
+
+      for (let attempt = 1; ; attempt++) {
+        const presigned = await this.ingest.presign({ filename, contentType, projectId }, requestOptions);
+        const response = await putToPresignedUrl(
+          presigned.upload_url,
+          file,
+          contentType,
+          onProgress,
+          requestOptions?.signal
+        );
+
+        if (response.ok) {
+          await response.body?.cancel().catch(() => undefined);
+          return this.ingest.getJob(presigned.job_id, requestOptions);
+        }
+
+        // Storage providers answer 400/403 for expired or invalid signatures
+        const expired = response.status === 400 || response.status === 403;
+        const text = await response.text().catch(() => '');
+
+        // Every presign creates a job; don't leave this one waiting for a file
+        await this.ingest.cancel(presigned.job_id, requestOptions).catch(() => undefined);
+
+        if (!expired || attempt >= maxPresignAttempts) {
+          throw new DoclayerError(
+            `Upload to storage failed with status ${response.status}`,
+            response.status,
+            text,
+            {
+              code: expired ? 'upload_url_expired' : 'upload_failed',
+              isRetryable: response.status >= 500,
+            }
+          );
+        }
+      }
+    },
+
+    /**
+     * Download a document from a URL and upload it for processing, e.g. an
+     * email attachment in S3 or a file on a customer portal. See
+     * {@link downloadRemoteFile} for the checks applied to the URL.
+     */
+    uploadFromUrl: async (options: UploadFromUrlOptions, requestOptions?: RequestOptions): Promise<IngestionJob> => {
+      const file = await downloadRemoteFile(options.url, options, requestOptions?.signal);
+
+      return this.ingest.upload(
+        { file, projectId: options.projectId, agentId: options.agentId, filename: file.name },
+        requestOptions
+      );
+    },
+
     /**
      * Get ingestion job status
      */
-    getJob: async (jobId: string): Promise<IngestionJob> => {
-      return this.request<IngestionJob>('GET', `/api/v4/ingestions/${jobId}`);
+    getJob: async (jobId: string, requestOptions?: RequestOptions): Promise<IngestionJob> => {
+      return this.request<IngestionJob>('GET', `/api/v4/ingestions/${jobId}`, requestOptions);
     },
 
     /**
      * List ingestion jobs
      */
-    listJobs: async (options?: { status?: string; limit?: number }): Promise<IngestionJob[]> => {
+    listJobs: async (
+      options?: { status?: string; limit?: number },
+      requestOptions?: RequestOptions
+    ): Promise<IngestionJob[]> => {
       const params = new URLSearchParams();
       if (options?.status) params.append('status', options.status);
       if (options?.limit) params.append('limit', options.limit.toString());
       
       const query = params.toString() ? `?${params}` : '';
-      return this.request<IngestionJob[]>('GET', `/api/v4/ingestions${query}`);
+      return this.request<IngestionJob[]>('GET', `/api/v4/ingestions${query}`, requestOptions);
+    },
+
+    /**
+     * List a single page of ingestion jobs
+     */
+    listJobsPage: async (
+      options?: ListJobsOptions & PageOptions,
+      requestOptions?: RequestOptions
+    ): Promise<Page<IngestionJob>> => {
+      const query = buildQuery({
+        status: options?.status,
+        limit: options?.limit,
+        cursor: options?.cursor,
+      });
+      return toPage(await this.request('GET', `/api/v4/ingestions${query}`, requestOptions));
+    },
+
+    /**
+     * Iterate over all ingestion jobs, fetching pages on demand
+     */
+    iterateJobs: (
+      options?: ListJobsOptions & IterateOptions,
+      requestOptions?: RequestOptions
+    ): AsyncGenerator<IngestionJob, void, undefined> => {
+      return paginate(
+        (cursor) =>
+          this.ingest.listJobsPage({ ...options, limit: options?.pageSize, cursor }, requestOptions),
+        options?.maxItems
+      );
+    },
+
+    /**
+     * Poll an ingestion job until it reaches a terminal state.
+     *
+     * Resolves with the completed job. Rejects with DoclayerJobFailedError
+     * when the job fails or is cancelled, and DoclayerTimeoutError when
+     * `timeout` elapses first.
+     */
+    waitForCompletion: async (
+      jobId: string,
+      options?: WaitForCompletionOptions
+    ): Promise<CompletedJob> => {
+      const maxPollInterval = options?.maxPollInterval ?? 10_000;
+      const timeout = options?.timeout ?? 300_000;
+      let interval = options?.pollInterval ?? 1_000;
+
+      return withDeadline(timeout, options?.signal, async (signal) => {
+        for (;;) {
+          const job = await this.ingest.getJob(jobId, { signal });
+          options?.onProgress?.(job);
+
+          if (job.status === 'failed' || job.status === 'cancelled') {
+            throw new DoclayerJobFailedError(job);
+          }
+
+          if (job.status === 'completed') {
+            const result: CompletedJob = { ...job };
+            if (job.document_id && options?.includeDocument) {
+              result.document = await this.documents.get(job.document_id, { signal });
+            }
+            if (job.document_id && options?.includeExtractions) {
+              const { extractions } = await this.documents.getExtractions(job.document_id, { signal });
+              result.extractions = extractions;
+            }
+            return result;
+          }
+
+          await sleep(interval, signal);
+          interval = Math.min(maxPollInterval, interval * 1.5);
+        }
+      });
     },
 
     /**
      * Cancel an ingestion job
      */
-    cancel: async (jobId: string): Promise<void> => {
-      await this.request<void>('POST', `/api/v4/ingestions/${jobId}/cancel`);
+    cancel: async (jobId: string, requestOptions?: RequestOptions): Promise<void> => {
+      await this.request<void>('POST', `/api/v4/ingestions/${jobId}/cancel`, requestOptions);
     },
 
     /**
      * Retry a failed ingestion job
      */
-    retry: async (jobId: string): Promise<IngestionJob> => {
-      return this.request<IngestionJob>('POST', `/api/v4/ingestions/${jobId}/retry`);
+    retry: async (jobId: string, requestOptions?: RequestOptions): Promise<IngestionJob> => {
+      return this.request<IngestionJob>('POST', `/api/v4/ingestions/${jobId}/retry`, requestOptions);
     },
   };
 
@@ -257,42 +1200,89 @@ export class DoclayerClient {
     /**
      * List documents
      */
-    list: async (options?: { projectId?: string; status?: string; limit?: number }): Promise<Document[]> => {
+    list: async (
+      options?: { projectId?: string; status?: string; limit?: number },
+      requestOptions?: RequestOptions
+    ): Promise<Document[]> => {
       const params = new URLSearchParams();
       if (options?.projectId) params.append('project_id', options.projectId);
       if (options?.status) params.append('status', options.status);
       if (options?.limit) params.append('limit', options.limit.toString());
       
       const query = params.toString() ? `?${params}` : '';
-      return this.request<Document[]>('GET', `/api/v4/documents${query}`);
+      return this.request<Document[]>('GET', `/api/v4/documents${query}`, requestOptions);
+    },
+
+    /**
+     * List a single page of documents
+     */
+    listPage: async (
+      options?: ListDocumentsOptions & PageOptions,
+      requestOptions?: RequestOptions
+    ): Promise<Page<Document>> => {
+      const query = buildQuery({
+        project_id: options?.projectId,
+        status: options?.status,
+        limit: options?.limit,
+        cursor: options?.cursor,
+      });
+      return toPage(await this.request('GET', `/api/v4/documents${query}`, requestOptions));
+    },
+
+    /**
+     * Iterate over all documents, fetching pages on demand
+     *
+     * @example
+     * ```ts
+     * for await (const doc of doclayer.documents.iterate({ projectId, maxItems: 10_000 })) {
+     *   await sync(doc);
+     * }
+     * ```
+     */
+    iterate: (
+      options?: ListDocumentsOptions & IterateOptions,
+      requestOptions?: RequestOptions
+    ): AsyncGenerator<Document, void, undefined> => {
+      return paginate(
+        (cursor) =>
+          this.documents.listPage({ ...options, limit: options?.pageSize, cursor }, requestOptions),
+        options?.maxItems
+      );
     },
 
     /**
      * Get document metadata
      */
-    get: async (documentId: string): Promise<Document> => {
-      return this.request<Document>('GET', `/api/v4/documents/${documentId}`);
+    get: async (documentId: string, requestOptions?: RequestOptions): Promise<Document> => {
+      return this.request<Document>('GET', `/api/v4/documents/${documentId}`, requestOptions);
     },
 
     /**
      * Get document chunks
      */
-    getChunks: async (documentId: string): Promise<DocumentChunk[]> => {
-      return this.request<DocumentChunk[]>('GET', `/api/v4/documents/${documentId}/chunks`);
+    getChunks: async (documentId: string, requestOptions?: RequestOptions): Promise<DocumentChunk[]> => {
+      return this.request<DocumentChunk[]>('GET', `/api/v4/documents/${documentId}/chunks`, requestOptions);
     },
 
     /**
      * Get document extractions
      */
-    getExtractions: async (documentId: string): Promise<{ extractions: Extraction[] }> => {
-      return this.request<{ extractions: Extraction[] }>('GET', `/api/v4/documents/${documentId}/extractions`);
+    getExtractions: async (
+      documentId: string,
+      requestOptions?: RequestOptions
+    ): Promise<{ extractions: Extraction[] }> => {
+      return this.request<{ extractions: Extraction[] }>(
+        'GET',
+        `/api/v4/documents/${documentId}/extractions`,
+        requestOptions
+      );
     },
 
     /**
      * Delete a document
      */
-    delete: async (documentId: string): Promise<void> => {
-      await this.request<void>('DELETE', `/api/v4/documents/${documentId}`);
+    delete: async (documentId: string, requestOptions?: RequestOptions): Promise<void> => {
+      await this.request<void>('DELETE', `/api/v4/documents/${documentId}`, requestOptions);
     },
   };
 
@@ -303,28 +1293,31 @@ export class DoclayerClient {
   search = {
     /**
      * Vector search across documents
+     *
+     * @example
+     * ```ts
+     * const results = await doclayer.search.vector({
+     *   query: 'termination clause',
+     *   filters: [{ field: 'file_type', eq: 'pdf' }],
+     *   include: ['document', 'neighbors'],
+     *   rerank: true,
+     * });
+     * ```
      */
-    vector: async (options: SearchOptions): Promise<SearchResult[]> => {
+    vector: async (options: SearchOptions, requestOptions?: RequestOptions): Promise<SearchResult[]> => {
       return this.request<SearchResult[]>('POST', '/api/v4/search/vector', {
-        body: {
-          query: options.query,
-          project_id: options.projectId,
-          limit: options.limit || 10,
-          threshold: options.threshold,
-        },
+        body: { ...searchBody(options), threshold: options.threshold },
+        ...requestOptions,
       });
     },
 
     /**
      * Graph-based search
      */
-    graph: async (options: SearchOptions): Promise<SearchResult[]> => {
+    graph: async (options: SearchOptions, requestOptions?: RequestOptions): Promise<SearchResult[]> => {
       return this.request<SearchResult[]>('POST', '/api/v4/search/graph', {
-        body: {
-          query: options.query,
-          project_id: options.projectId,
-          limit: options.limit || 10,
-        },
+        body: searchBody(options),
+        ...requestOptions,
       });
     },
   };
@@ -337,31 +1330,53 @@ export class DoclayerClient {
     /**
      * List projects
      */
-    list: async (): Promise<Project[]> => {
-      return this.request<Project[]>('GET', '/api/v4/projects');
+    list: async (requestOptions?: RequestOptions): Promise<Project[]> => {
+      return this.request<Project[]>('GET', '/api/v4/projects', requestOptions);
+    },
+
+    /**
+     * List a single page of projects
+     */
+    listPage: async (options?: PageOptions, requestOptions?: RequestOptions): Promise<Page<Project>> => {
+      const query = buildQuery({ limit: options?.limit, cursor: options?.cursor });
+      return toPage(await this.request('GET', `/api/v4/projects${query}`, requestOptions));
+    },
+
+    /**
+     * Iterate over all projects, fetching pages on demand
+     */
+    iterate: (
+      options?: IterateOptions,
+      requestOptions?: RequestOptions
+    ): AsyncGenerator<Project, void, undefined> => {
+      return paginate(
+        (cursor) => this.projects.listPage({ limit: options?.pageSize, cursor }, requestOptions),
+        options?.maxItems
+      );
     },
 
     /**
      * Get project details
      */
-    get: async (projectId: string): Promise<Project> => {
-      return this.request<Project>('GET', `/api/v4/projects/${projectId}`);
+    get: async (projectId: string, requestOptions?: RequestOptions): Promise<Project> => {
+      return this.request<Project>('GET', `/api/v4/projects/${projectId}`, requestOptions);
     },
 
     /**
      * Create a new project
      */
-    create: async (name: string, description?: string): Promise<Project> => {
+    create: async (name: string, description?: string, requestOptions?: RequestOptions): Promise<Project> => {
       return this.request<Project>('POST', '/api/v4/projects', {
         body: { name, description },
+        ...requestOptions,
       });
     },
 
     /**
      * Delete a project
      */
-    delete: async (projectId: string): Promise<void> => {
-      await this.request<void>('DELETE', `/api/v4/projects/${projectId}`);
+    delete: async (projectId: string, requestOptions?: RequestOptions): Promise<void> => {
+      await this.request<void>('DELETE', `/api/v4/projects/${projectId}`, requestOptions);
     },
   };
 
@@ -373,16 +1388,16 @@ export class DoclayerClient {
     /**
      * List available agent templates
      */
-    list: async (category?: string): Promise<AgentTemplate[]> => {
+    list: async (category?: string, requestOptions?: RequestOptions): Promise<AgentTemplate[]> => {
       const query = category ? `?category=${encodeURIComponent(category)}` : '';
-      return this.request<AgentTemplate[]>('GET', `/api/v4/agents/templates${query}`);
+      return this.request<AgentTemplate[]>('GET', `/api/v4/agents/templates${query}`, requestOptions);
     },
 
     /**
      * Get agent template details
      */
-    get: async (templateId: string): Promise<AgentTemplate> => {
-      return this.request<AgentTemplate>('GET', `/api/v4/agents/templates/${templateId}`);
+    get: async (templateId: string, requestOptions?: RequestOptions): Promise<AgentTemplate> => {
+      return this.request<AgentTemplate>('GET', `/api/v4/agents/templates/${templateId}`, requestOptions);
     },
   };
 
@@ -394,40 +1409,87 @@ export class DoclayerClient {
     /**
      * List webhooks
      */
-    list: async (): Promise<Webhook[]> => {
-      return this.request<Webhook[]>('GET', '/api/v4/webhooks');
+    list: async (requestOptions?: RequestOptions): Promise<Webhook[]> => {
+      return this.request<Webhook[]>('GET', '/api/v4/webhooks', requestOptions);
+    },
+
+    /**
+     * List a single page of webhooks
+     */
+    listPage: async (options?: PageOptions, requestOptions?: RequestOptions): Promise<Page<Webhook>> => {
+      const query = buildQuery({ limit: options?.limit, cursor: options?.cursor });
+      return toPage(await this.request('GET', `/api/v4/webhooks${query}`, requestOptions));
+    },
+
+    /**
+     * Iterate over all webhooks, fetching pages on demand
+     */
+    iterate: (
+      options?: IterateOptions,
+      requestOptions?: RequestOptions
+    ): AsyncGenerator<Webhook, void, undefined> => {
+      return paginate(
+        (cursor) => this.webhooks.listPage({ limit: options?.pageSize, cursor }, requestOptions),
+        options?.maxItems
+      );
     },
 
     /**
      * Create a webhook
      */
-    create: async (webhook: WebhookCreate): Promise<Webhook> => {
+    create: async (webhook: WebhookCreate, requestOptions?: RequestOptions): Promise<Webhook> => {
       return this.request<Webhook>('POST', '/api/v4/webhooks', {
         body: webhook,
+        ...requestOptions,
       });
     },
 
     /**
      * Get webhook details
      */
-    get: async (webhookId: string): Promise<Webhook> => {
-      return this.request<Webhook>('GET', `/api/v4/webhooks/${webhookId}`);
+    get: async (webhookId: string, requestOptions?: RequestOptions): Promise<Webhook> => {
+      return this.request<Webhook>('GET', `/api/v4/webhooks/${webhookId}`, requestOptions);
     },
 
     /**
      * Delete a webhook
      */
-    delete: async (webhookId: string): Promise<void> => {
-      await this.request<void>('DELETE', `/api/v4/webhooks/${webhookId}`);
+    delete: async (webhookId: string, requestOptions?: RequestOptions): Promise<void> => {
+      await this.request<void>('DELETE', `/api/v4/webhooks/${webhookId}`, requestOptions);
+    },
+
+    /**
+     * Rotate a webhook's signing secret.
+     *
+     * For zero-downtime rotation, generate the new secret yourself, deploy it
+     * as the current secret alongside the old one as the previous secret,
+     * then call this method with `{ secret }`.
+     */
+    rotateSecret: async (
+      webhookId: string,
+      options?: RotateSecretOptions,
+      requestOptions?: RequestOptions
+    ): Promise<WebhookSecretRotation> => {
+      return this.request<WebhookSecretRotation>('POST', `/api/v4/webhooks/${webhookId}/rotate-secret`, {
+        body: {
+          secret: options?.secret,
+          grace_period_seconds: options?.gracePeriodSeconds ?? 86_400,
+        },
+        ...requestOptions,
+      });
     },
 
     /**
      * Test a webhook
      */
-    test: async (webhookId: string): Promise<{ success: boolean; status_code?: number; message: string }> => {
+    test: async (
+      webhookId: string,
+      requestOptions?: RequestOptions
+    ): Promise<{ success: boolean; status_code?: number; message: string }> => {
       return this.request<{ success: boolean; status_code?: number; message: string }>(
         'POST',
-        `/api/v4/webhooks/${webhookId}/test`
+        `/api/v4/webhooks/${webhookId}/test`,
+        requestOptions
       );
     },
   };
@@ -440,36 +1502,307 @@ export class DoclayerClient {
     /**
      * Get credits balance
      */
-    getCredits: async (): Promise<{ balance: number; currency: string }> => {
-      return this.request<{ balance: number; currency: string }>('GET', '/api/v4/billing/credits');
+    getCredits: async (requestOptions?: RequestOptions): Promise<{ balance: number; currency: string }> => {
+      return this.request<{ balance: number; currency: string }>('GET', '/api/v4/billing/credits', requestOptions);
     },
 
     /**
      * Get usage summary
      */
-    getUsage: async (period?: string): Promise<Record<string, unknown>> => {
+    getUsage: async (period?: string, requestOptions?: RequestOptions): Promise<Record<string, unknown>> => {
       const query = period ? `?period=${period}` : '';
-      return this.request<Record<string, unknown>>('GET', `/api/v4/billing/usage${query}`);
+      return this.request<Record<string, unknown>>('GET', `/api/v4/billing/usage${query}`, requestOptions);
     },
   };
 }
 
 // ============================================================================
-// Error Class
+// Error Classes
 // ============================================================================
 
+export interface DoclayerErrorOptions {
+  /** Stable, machine-readable error code */
+  code?: string;
+  /** Error code from the API response body, if any */
+  apiCode?: string;
+  /** Request ID from the `x-request-id` response header, for support tickets */
+  requestId?: string;
+  /** Whether repeating the same request may succeed */
+  isRetryable?: boolean;
+}
+
 export class DoclayerError extends Error {
   status: number;
   details: unknown;
-
-  constructor(message: string, status: number, details?: unknown) {
+  code: string;
+  /** Error code from the API response body, e.g. `invalid_api_key` */
+  apiCode?: string;
+  requestId?: string;
+  isRetryable: boolean;
+  /** Number of attempts made before the error was thrown */
+  attempts: number;
+
+  constructor(message: string, status: number, details?: unknown, options?: DoclayerErrorOptions) {
     super(message);
     this.name = 'DoclayerError';
     this.status = status;
     this.details = details;
+    this.code = options?.code ?? 'api_error';
+    this.apiCode = options?.apiCode;
+    this.requestId = options?.requestId;
+    this.isRetryable = options?.isRetryable ?? false;
+    this.attempts = 1;
   }
 }
 
+/**
+ * 401 - The API key is missing, invalid or revoked
+ */
+export class DoclayerAuthenticationError extends DoclayerError {
+  constructor(message: string, details?: unknown, options?: DoclayerErrorOptions) {
+    super(message, 401, details, { code: 'authentication_error', ...options });
+    this.name = 'DoclayerAuthenticationError';
+  }
+}
+
+/**
+ * 403 - The API key is valid but not allowed to perform this action
+ */
+export class DoclayerPermissionError extends DoclayerError {
+  constructor(message: string, details?: unknown, options?: DoclayerErrorOptions) {
+    super(message, 403, details, { code: 'permission_denied', ...options });
+    this.name = 'DoclayerPermissionError';
+  }
+}
+
+/**
+ * 404 - The requested resource does not exist
+ */
+export class DoclayerNotFoundError extends DoclayerError {
+  constructor(message: string, details?: unknown, options?: DoclayerErrorOptions) {
+    super(message, 404, details, { code: 'not_found', ...options });
+    this.name = 'DoclayerNotFoundError';
+  }
+}
+
+/**
+ * 400/422 - The request was rejected; `fieldErrors` maps field paths to messages
+ */
+export class DoclayerValidationError extends DoclayerError {
+  fieldErrors: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    status: number,
+    details?: unknown,
+    options?: DoclayerErrorOptions & { fieldErrors?: Record<string, string[]> }
+  ) {
+    super(message, status, details, { code: 'validation_error', ...options });
+    this.name = 'DoclayerValidationError';
+    this.fieldErrors = options?.fieldErrors ?? {};
+  }
+}
+
+/**
+ * 429 - Too many requests; `resetAt` is when the rate limit window resets, if known
+ */
+export class DoclayerRateLimitError extends DoclayerError {
+  resetAt?: Date;
+
+  constructor(
+    message: string,
+    details?: unknown,
+    options?: DoclayerErrorOptions & { resetAt?: Date }
+  ) {
+    super(message, 429, details, { code: 'rate_limited', isRetryable: true, ...options });
+    this.name = 'DoclayerRateLimitError';
+    this.resetAt = options?.resetAt;
+  }
+}
+
+/**
+ * 402 - The account does not have enough credits to process the request
+ */
+export class DoclayerInsufficientCreditsError extends DoclayerError {
+  constructor(message: string, details?: unknown, options?: DoclayerErrorOptions) {
+    super(message, 402, details, { code: 'insufficient_credits', ...options });
+    this.name = 'DoclayerInsufficientCreditsError';
+  }
+}
+
+/**
+ * 5xx - The Doclayer API failed to handle the request
+ */
+export class DoclayerServerError extends DoclayerError {
+  constructor(message: string, status: number, details?: unknown, options?: DoclayerErrorOptions) {
+    super(message, status, details, { code: 'server_error', isRetryable: true, ...options });
+    this.name = 'DoclayerServerError';
+  }
+}
+
+/**
+ * The request never produced a response (DNS failure, connection reset, etc.)
+ */
+export class DoclayerNetworkError extends DoclayerError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 0, cause, { code: 'network_error', isRetryable: true });
+    this.name = 'DoclayerNetworkError';
+  }
+}
+
+/**
+ * Thrown when a call exceeds its timeout (client default or per-call `timeoutMs`)
+ */
+export class DoclayerTimeoutError extends DoclayerError {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`, 0, undefined, {
+      code: 'timeout',
+      isRetryable: true,
+    });
+    this.name = 'DoclayerTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown by `ingest.waitForCompletion` when the job ends as failed or cancelled
+ */
+export class DoclayerJobFailedError extends DoclayerError {
+  job: IngestionJob;
+
+  constructor(job: IngestionJob) {
+    super(
+      job.error_message || `Ingestion job ${job.job_id} ${job.status}`,
+      0,
+      job,
+      { code: job.status === 'cancelled' ? 'job_cancelled' : 'job_failed' }
+    );
+    this.name = 'DoclayerJobFailedError';
+    this.job = job;
+  }
+}
+
+/**
+ * Thrown by `downloadRemoteFile` and `ingest.uploadFromUrl` when a URL is not
+ * allowed or its response is rejected; `status` is the HTTP status to answer with
+ */
+export class DoclayerDownloadError extends DoclayerError {
+  constructor(message: string, status: number, code: string, details?: unknown) {
+    super(message, status, details, { code });
+    this.name = 'DoclayerDownloadError';
+  }
+}
+
+/**
+ * Extract field-level messages from common validation error shapes:
+ * `{ detail: [{ loc, msg }] }` and `{ errors: { field: string | string[] } }`
+ */
+function parseFieldErrors(body: Record<string, unknown>): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+  const add = (field: string, message: string) => {
+    (fieldErrors[field] ??= []).push(message);
+  };
+
+  if (Array.isArray(body.detail)) {
+    for (const item of body.detail as unknown[]) {
+      if (!isRecord(item)) continue;
+      const loc = Array.isArray(item.loc)
+        ? item.loc.filter((part: unknown) => part !== 'body').join('.')
+        : '';
+      add(loc || '_', String(item.msg ?? item.message ?? 'Invalid value'));
+    }
+  }
+
+  const errors = body.errors ?? (isRecord(body.error) ? body.error.fields : undefined);
+  if (errors && typeof errors === 'object' && !Array.isArray(errors)) {
+    for (const [field, messages] of Object.entries(errors)) {
+      for (const message of Array.isArray(messages) ? messages : [messages]) {
+        add(field, String(message));
+      }
+    }
+  }
+
+  return fieldErrors;
+}
+
+function parseRateLimitReset(headers: Headers): Date | undefined {
+  const retryAfter = parseRetryAfter(headers.get('Retry-After'));
+  if (retryAfter !== undefined) {
+    return new Date(Date.now() + retryAfter);
+  }
+
+  // X-RateLimit-Reset is expressed in epoch seconds
+  const reset = Number(headers.get('X-RateLimit-Reset'));
+  if (reset > 0) {
+    return new Date(reset * 1000);
+  }
+
+  return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Map a non-2xx API response to the matching DoclayerError subclass
+ */
+function createErrorFromResponse(response: Response, details: unknown): DoclayerError {
+  const body = isRecord(details) ? details : {};
+  const error = isRecord(body.error) ? body.error : {};
+  const message =
+    stringValue(body.message) ||
+    stringValue(error.message) ||
+    stringValue(body.detail) ||
+    response.statusText ||
+    'Request failed';
+  const apiCode = stringValue(error.code) ?? stringValue(body.code);
+  // The class decides `code`; the API's own code is kept separately so `code` stays stable
+  const options: DoclayerErrorOptions = {
+    ...(apiCode ? { apiCode } : {}),
+    requestId:
+      response.headers.get('x-request-id') ?? response.headers.get('x-doclayer-request-id') ?? undefined,
+  };
+  const status = response.status;
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new DoclayerValidationError(message, status, details, {
+        ...options,
+        fieldErrors: parseFieldErrors(body),
+      });
+    case 401:
+      return new DoclayerAuthenticationError(message, details, options);
+    case 402:
+      return new DoclayerInsufficientCreditsError(message, details, options);
+    case 403:
+      return new DoclayerPermissionError(message, details, options);
+    case 404:
+      return new DoclayerNotFoundError(message, details, options);
+    case 429:
+      return new DoclayerRateLimitError(message, details, {
+        ...options,
+        resetAt: parseRateLimitReset(response.headers),
+      });
+  }
+
+  if (status >= 500) {
+    return new DoclayerServerError(message, status, details, options);
+  }
+
+  return new DoclayerError(message, status, details, {
+    ...options,
+    isRetryable: status === 408,
+  });
+}
+
 // ============================================================================
 // Factory Function
 // ============================================================================
@@ -477,24 +1810,30 @@ export class DoclayerError extends Error {
 /**
  * Create a Doclayer client from environment variables
  * Works in both Deno and Node.js environments
+ *
+ * Values in `config` (e.g. tenant credentials from `resolveDoclayerCredentials`)
+ * take precedence over the environment.
  */
-export function createDoclayerClient(): DoclayerClient {
+export function createDoclayerClient(config?: Partial<DoclayerConfig>): DoclayerClient {
   // Try Deno first, then fall back to Node.js process.env
   const apiKey =
-    typeof Deno !== 'undefined'
+    config?.apiKey ??
+    (typeof Deno !== 'undefined'
       ? Deno.env.get('DOCLAYER_API_KEY')
-      : process.env.DOCLAYER_API_KEY;
+      : process.env.DOCLAYER_API_KEY);
 
   if (!apiKey) {
     throw new Error('DOCLAYER_API_KEY environment variable is required');
   }
 
   const baseUrl =
-    typeof Deno !== 'undefined'
+    config?.baseUrl ??
+    (typeof Deno !== 'undefined'
       ? Deno.env.get('DOCLAYER_API_URL')
-      : process.env.DOCLAYER_API_URL;
+      : process.env.DOCLAYER_API_URL);
 
   return new DoclayerClient({
+    ...config,
     apiKey,
     baseUrl: baseUrl || 'https://api.doclayer.ai',
   });
@@ -4,6 +4,7 @@
  * This package provides:
  * - TypeScript client for the Doclayer API
  * - React hooks for real-time document status updates
+ * - Webhook signature verification, typed events and a replayable dispatcher
  * - Supabase Edge Function handlers for webhooks
  * - Database migrations for syncing Doclayer data
  */
@@ -12,23 +13,185 @@
 export {
   DoclayerClient,
   DoclayerError,
+  DoclayerAuthenticationError,
+  DoclayerPermissionError,
+  DoclayerNotFoundError,
+  DoclayerValidationError,
+  DoclayerRateLimitError,
+  DoclayerInsufficientCreditsError,
+  DoclayerServerError,
+  DoclayerNetworkError,
+  DoclayerTimeoutError,
+  DoclayerJobFailedError,
+  DoclayerDownloadError,
   createDoclayerClient,
+  downloadRemoteFile,
+  DEFAULT_DOWNLOAD_CONTENT_TYPES,
   type DoclayerConfig,
+  type RetryOptions,
+  type RequestOptions,
+  type DoclayerErrorOptions,
   type UploadOptions,
   type PresignOptions,
   type PresignResponse,
+  type PresignedUploadOptions,
+  type DownloadOptions,
+  type UploadFromUrlOptions,
+  type UploadProgress,
   type IngestionJob,
+  type WaitForCompletionOptions,
+  type CompletedJob,
   type Document,
   type DocumentChunk,
   type Extraction,
   type SearchOptions,
   type SearchResult,
+  type SearchFilter,
+  type SearchFilterField,
+  type SearchFilterValue,
+  type SearchRange,
+  type SearchInclude,
   type AgentTemplate,
   type Project,
   type WebhookCreate,
   type Webhook,
+  type RotateSecretOptions,
+  type WebhookSecretRotation,
+  type PageOptions,
+  type Page,
+  type IterateOptions,
+  type ListJobsOptions,
+  type ListDocumentsOptions,
 } from './doclayer-client';
 
+// Re-export webhook verification and event types
+export {
+  constructEvent,
+  verifyWebhook,
+  verifyDelivery,
+  verifySignature,
+  parseWebhookEvent,
+  timingSafeEqual,
+  WebhookVerificationError,
+  WEBHOOK_EVENT_TYPES,
+  type DoclayerWebhookEvent,
+  type DoclayerWebhookEventType,
+  type WebhookEventDataMap,
+  type WebhookPayload,
+  type WebhookHeaders,
+  type WebhookVerificationFailure,
+  type WebhookVerifyOptions,
+  type WebhookSecret,
+  type WebhookVerificationResult,
+  type DocumentProcessingStarted,
+  type DocumentProcessingCompleted,
+  type DocumentProcessingFailed,
+  type BatchStarted,
+  type BatchProgress,
+  type BatchCompleted,
+  type BatchFailed,
+  type BillingCreditsLow,
+  type BillingCreditsExhausted,
+  type BillingUsageReport,
+  type WorkflowStarted,
+  type WorkflowCompleted,
+  type WorkflowFailed,
+  type TestPing,
+} from './webhooks';
+
+// Re-export the webhook dispatcher and default database sync handlers
+export {
+  dispatchWebhookEvent,
+  defaultWebhookHandlers,
+  writeRow,
+  writeStatusRow,
+  isStaleTransition,
+  describeWebhookError,
+  isPermanentWebhookError,
+  type WebhookRowChange,
+  type StatusSnapshot,
+  type WebhookDispatchContext,
+  type WebhookEventHandler,
+  type WebhookEventHandlers,
+  type WebhookEventHookSet,
+  type WebhookEventHooks,
+  type WebhookMiddleware,
+  type DispatchOptions,
+  type DispatchResult,
+} from './webhook-dispatcher';
+
+// Re-export the webhook request handler factory
+export {
+  createDoclayerWebhookHandler,
+  type DoclayerWebhookHandlerOptions,
+} from './webhook-handler';
+
+// Re-export per-tenant credential resolution
+export {
+  resolveDoclayerCredentials,
+  createTenantDoclayerClient,
+  loadTenantWebhookSecrets,
+  resolveWebhookTenant,
+  type DoclayerCredentials,
+  type CredentialScope,
+  type WebhookTenant,
+} from './credentials';
+
+// Re-export storage-backed ingestion
+export {
+  uploadWithOriginal,
+  ingestFromStorage,
+  reprocessDocument,
+  getOriginalUrl,
+  fileChecksum,
+  findDuplicateDocument,
+  DEFAULT_DOCUMENT_BUCKET,
+  type DedupeMode,
+  type DuplicateLookup,
+  type DuplicateDocument,
+  type StoredDocumentOptions,
+  type UploadWithOriginalOptions,
+  type IngestFromStorageOptions,
+  type ReprocessOptions,
+  type StoredIngestion,
+} from './storage';
+
+// Re-export upload validation
+export {
+  validateUpload,
+  detectMimeType,
+  countPdfPages,
+  UploadValidationError,
+  DEFAULT_MAX_UPLOAD_BYTES,
+  DEFAULT_ALLOWED_EXTENSIONS,
+  EXTENSION_MIME_TYPES,
+  type UploadValidationOptions,
+  type ValidatedUpload,
+  type UploadValidationFailure,
+} from './upload-validation';
+
+// Re-export multi-file and ZIP batch uploads
+export {
+  uploadBatch,
+  extractZip,
+  isZipArchive,
+  type BatchUploadOptions,
+  type BatchUploadResult,
+  type BatchFileResult,
+  type BatchFileStatus,
+  type ExtractZipOptions,
+} from './batch-upload';
+
+// Re-export local and hybrid search over synced data
+export {
+  searchChunks,
+  searchHybrid,
+  type EmbedFunction,
+  type LocalVectorSearchOptions,
+  type HybridSearchOptions,
+  type HybridSearchResult,
+} from './search';
+
 // Re-export React hooks (conditionally available)
 export {
   useDocumentStatus,
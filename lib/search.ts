@@ -0,0 +1,270 @@
+/**
+ * Local and hybrid search over Doclayer data synced into Supabase
+ *
+ * Queries the synced `doclayer_chunks` and `doclayer_extractions` tables
+ * (see migrations/010 and 011) and returns rows shaped like the Doclayer
+ * client's `SearchResult`, so local and remote results can be used
+ * interchangeably.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DoclayerClient, SearchResult } from './doclayer-client.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Computes embeddings for a list of texts, one vector per text, e.g. with
+ * the OpenAI embeddings API. Must use the same model as the stored chunks.
+ */
+export type EmbedFunction = (texts: string[]) => Promise<number[][]>;
+
+export interface LocalVectorSearchOptions {
+  /** Query embedding; required unless `query` and `embed` are given */
+  embedding?: number[];
+  /** Query text, embedded with `embed` */
+  query?: string;
+  embed?: EmbedFunction;
+  /** Doclayer project ID to search in */
+  projectId?: string;
+  /** Minimum cosine similarity (default: 0.5) */
+  threshold?: number;
+  /** Maximum results (default: 10) */
+  limit?: number;
+}
+
+export interface HybridSearchOptions {
+  query: string;
+  /** Doclayer project ID to search in */
+  projectId?: string;
+  /** Maximum fused results (default: 10) */
+  limit?: number;
+  /** Candidates fetched from each source (default: 2 x limit) */
+  candidates?: number;
+  /** Minimum score for Doclayer vector results */
+  threshold?: number;
+  /** Reciprocal-rank fusion constant; higher values flatten rank differences (default: 60) */
+  rrfK?: number;
+}
+
+export interface HybridSearchResult extends SearchResult {
+  /** Reciprocal-rank fusion score */
+  score: number;
+  /** Synced table the text comes from; vector-only hits are chunks */
+  source: 'chunk' | 'extraction';
+  /** Score from each source that returned the result */
+  scores: { fullText?: number; vector?: number };
+  /** 1-based rank in each source that returned the result */
+  ranks: { fullText?: number; vector?: number };
+  /** HTML-escaped excerpt with query terms wrapped in `<mark>` tags */
+  snippet: string;
+}
+
+interface TextMatch {
+  source: 'chunk' | 'extraction';
+  id: string;
+  document_id: string;
+  doclayer_document_id: string | null;
+  doclayer_chunk_id: string | null;
+  content: string;
+  snippet: string;
+  rank: number;
+  page_number: number | null;
+  metadata: Record<string, unknown> | null;
+}
+
+interface MatchedChunk {
+  chunk_id: string;
+  document_id: string;
+  doclayer_chunk_id: string | null;
+  doclayer_document_id: string | null;
+  content: string;
+  page_number: number | null;
+  chunk_index: number;
+  metadata: Record<string, unknown> | null;
+  similarity: number;
+}
+
+// ============================================================================
+// Vector Search
+// ============================================================================
+
+/**
+ * Semantic search over synced chunk embeddings with the
+ * `match_doclayer_chunks` database function.
+ *
+ * @example
+ * ```ts
+ * const results = await searchChunks(supabase, {
+ *   query: 'termination clauses',
+ *   embed: (texts) => embedWithOpenAI(texts),
+ *   projectId: 'proj_123',
+ * });
+ * ```
+ */
+export async function searchChunks(
+  supabase: SupabaseClient,
+  options: LocalVectorSearchOptions
+): Promise<SearchResult[]> {
+  const embedding = options.embedding ?? (await embedQuery(options));
+
+  const { data, error } = await supabase.rpc('match_doclayer_chunks', {
+    query_embedding: embedding,
+    filter_project_id: options.projectId ?? null,
+    match_threshold: options.threshold ?? 0.5,
+    match_count: options.limit ?? 10,
+  });
+
+  if (error) throw error;
+
+  return ((data ?? []) as MatchedChunk[]).map(toSearchResult);
+}
+
+async function embedQuery(options: LocalVectorSearchOptions): Promise<number[]> {
+  if (options.query === undefined || !options.embed) {
+    throw new Error('searchChunks needs an embedding, or a query and an embed function');
+  }
+
+  const [embedding] = await options.embed([options.query]);
+  return embedding;
+}
+
+// Doclayer IDs where known, so results match those of DoclayerClient.search
+function toSearchResult(row: MatchedChunk): SearchResult {
+  return {
+    document_id: row.doclayer_document_id ?? row.document_id,
+    chunk_id: row.doclayer_chunk_id ?? row.chunk_id,
+    content: row.content,
+    score: row.similarity,
+    metadata: {
+      ...row.metadata,
+      page_number: row.page_number,
+      chunk_index: row.chunk_index,
+      local_chunk_id: row.chunk_id,
+      local_document_id: row.document_id,
+    },
+  };
+}
+
+// ============================================================================
+// Hybrid Search
+// ============================================================================
+
+/**
+ * Keyword search in Postgres (`search_doclayer_text`) combined with Doclayer
+ * vector search, merged with reciprocal-rank fusion: each result scores
+ * `sum(1 / (rrfK + rank))` over the sources that returned it.
+ *
+ * @example
+ * ```ts
+ * const results = await searchHybrid(supabase, doclayer, { query: 'late payment penalty' });
+ * results[0].snippet; // '... a <mark>late</mark> <mark>payment</mark> <mark>penalty</mark> of 2% ...'
+ * results[0].scores;  // { fullText: 0.42, vector: 0.81 }
+ * ```
+ */
+export async function searchHybrid(
+  supabase: SupabaseClient,
+  doclayer: Pick<DoclayerClient, 'search'>,
+  options: HybridSearchOptions
+): Promise<HybridSearchResult[]> {
+  const limit = options.limit ?? 10;
+  const candidates = options.candidates ?? limit * 2;
+  const rrfK = options.rrfK ?? 60;
+
+  const [textResponse, vectorResults] = await Promise.all([
+    supabase.rpc('search_doclayer_text', {
+      query: options.query,
+      filter_project_id: options.projectId ?? null,
+      match_count: candidates,
+    }),
+    doclayer.search.vector({
+      query: options.query,
+      projectId: options.projectId,
+      limit: candidates,
+      threshold: options.threshold,
+    }),
+  ]);
+
+  if (textResponse.error) throw textResponse.error;
+
+  const fused = new Map<string, HybridSearchResult>();
+
+  ((textResponse.data ?? []) as TextMatch[]).forEach((match, index) => {
+    // Chunks are keyed by their Doclayer ID so they merge with vector hits
+    const key = match.source === 'chunk' ? `chunk:${match.doclayer_chunk_id ?? match.id}` : `extraction:${match.id}`;
+    fused.set(key, {
+      document_id: match.doclayer_document_id ?? match.document_id,
+      chunk_id: match.doclayer_chunk_id ?? match.id,
+      content: match.content,
+      score: 1 / (rrfK + index + 1),
+      source: match.source,
+      scores: { fullText: match.rank },
+      ranks: { fullText: index + 1 },
+      snippet: match.snippet,
+      metadata: {
+        ...match.metadata,
+        page_number: match.page_number,
+        [match.source === 'chunk' ? 'local_chunk_id' : 'local_extraction_id']: match.id,
+        local_document_id: match.document_id,
+      },
+    });
+  });
+
+  vectorResults.forEach((result, index) => {
+    const key = `chunk:${result.chunk_id}`;
+    const existing = fused.get(key);
+    const rrf = 1 / (rrfK + index + 1);
+
+    if (existing) {
+      existing.score += rrf;
+      existing.scores.vector = result.score;
+      existing.ranks.vector = index + 1;
+      existing.metadata = { ...result.metadata, ...existing.metadata };
+      return;
+    }
+
+    fused.set(key, {
+      ...result,
+      score: rrf,
+      source: 'chunk',
+      scores: { vector: result.score },
+      ranks: { vector: index + 1 },
+      snippet: highlight(result.content, options.query),
+    });
+  });
+
+  return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+const SNIPPET_LENGTH = 240;
+
+// Client-side snippet for results Postgres did not highlight: the passage
+// around the first query term, HTML-escaped, with every term wrapped in <mark>
+function highlight(content: string, query: string): string {
+  const terms = query
+    .toLowerCase()
+    .split(/\W+/)
+    .filter((term) => term.length > 2);
+
+  const pattern = terms.length > 0 ? new RegExp(`\\b(${terms.join('|')})`, 'gi') : null;
+  const first = pattern ? content.search(pattern) : -1;
+  const start = Math.max(0, first - SNIPPET_LENGTH / 4);
+  const excerpt = content.slice(start, start + SNIPPET_LENGTH);
+  // Split on the terms first so marks never land inside an escaped entity;
+  // the capture group puts the matched terms at the odd indexes
+  const marked = (pattern ? excerpt.split(pattern) : [excerpt])
+    .map((part, index) => (index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+    .join('');
+
+  return `${start > 0 ? '... ' : ''}${marked}${start + SNIPPET_LENGTH < content.length ? ' ...' : ''}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
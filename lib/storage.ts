@@ -0,0 +1,482 @@
+/**
+ * Storage-backed document ingestion
+ *
+ * Keeps the original of every uploaded document in a Supabase Storage bucket
+ * (see migrations/014), records its path on the `doclayer_documents` row and
+ * ingests it into Doclayer. Stored originals can be re-submitted later, e.g.
+ * with a different agent, and uploads of files that were already processed
+ * can be detected by checksum (see migrations/015). All functions need a
+ * Supabase client with the service role key.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DoclayerClient, IngestionJob } from './doclayer-client.ts';
+import { validateUpload, type UploadValidationOptions } from './upload-validation.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DEFAULT_DOCUMENT_BUCKET = 'doclayer-documents';
+
+/**
+ * What to do with an upload whose contents match a completed document
+ * - `skip`: return the existing document, nothing is stored or ingested
+ * - `link`: add a document row for the upload that links to the existing one
+ * - `force`: store and ingest the file again
+ */
+export type DedupeMode = 'skip' | 'link' | 'force';
+
+export interface StoredDocumentOptions {
+  projectId: string;
+  agentId?: string;
+  /** Storage bucket for originals (default: `doclayer-documents`) */
+  bucket?: string;
+  /** Uploading user, stored as `owner_id` (needs migrations/012) */
+  ownerId?: string;
+  /** Organization the document is shared with, stored as `org_id` */
+  orgId?: string | null;
+  /** Upload batch the document belongs to, stored as `upload_batch_id` (needs migrations/016) */
+  uploadBatchId?: string;
+}
+
+export interface UploadWithOriginalOptions extends StoredDocumentOptions {
+  file: Blob | File;
+  /** Defaults to `file.name` when the file is a File */
+  filename?: string;
+  /** Object path in the bucket (default: `<ownerId>/<uuid>/<filename>`) */
+  path?: string;
+  /** Defaults to `file.type`, e.g. pass the type detected by `validateUpload` */
+  contentType?: string;
+  /** Handling of files already processed in the project (default: `force`, needs migrations/015 otherwise) */
+  dedupe?: DedupeMode;
+  /** URL the file was downloaded from, stored as `source_url` (needs migrations/017) */
+  sourceUrl?: string;
+}
+
+export interface IngestFromStorageOptions extends StoredDocumentOptions {
+  /** Object path in the bucket */
+  path: string;
+  /** Defaults to the last segment of `path` */
+  filename?: string;
+  /** Document whose original is being re-submitted */
+  reprocessedFrom?: string;
+  /** Check the stored file before ingesting it, e.g. one the browser uploaded */
+  validation?: UploadValidationOptions;
+  /**
+   * Handling of files already processed in the project (default: `force`, needs
+   * migrations/015 otherwise); the stored file is left in place when skipped or linked
+   */
+  dedupe?: DedupeMode;
+}
+
+export interface ReprocessOptions {
+  /** Agent to process the original with (default: the document's agent) */
+  agentId?: string;
+  /** Project to ingest into (default: the document's project) */
+  projectId?: string;
+}
+
+export interface StoredIngestion {
+  job: IngestionJob;
+  /** `doclayer_documents.id` of the tracked document */
+  documentId: string;
+  bucket: string;
+  path: string;
+  /** Existing document the upload duplicates, when it was skipped or linked */
+  duplicateOf?: string;
+}
+
+export interface DuplicateLookup {
+  /** SHA-256 of the file, see {@link fileChecksum} */
+  checksum: string;
+  projectId: string;
+  /** Only match documents processed by this agent (default: any agent) */
+  agentId?: string;
+  /** Only match documents of this user or organization */
+  ownerId?: string;
+  orgId?: string | null;
+}
+
+export interface DuplicateDocument {
+  id: string;
+  doclayer_job_id: string;
+  doclayer_document_id: string | null;
+  storage_bucket: string | null;
+  storage_path: string | null;
+  insights_count: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface StoredDocumentRow {
+  id: string;
+  filename: string | null;
+  project_id: string | null;
+  agent_template_id: string | null;
+  storage_bucket: string | null;
+  storage_path: string | null;
+  owner_id: string | null;
+  org_id: string | null;
+}
+
+// ============================================================================
+// Ingestion
+// ============================================================================
+
+/**
+ * Store a file in Supabase Storage, then ingest it into Doclayer and track it
+ * in `doclayer_documents` with its storage path and checksum. With `dedupe`,
+ * a file already processed in the project is not ingested again. The stored
+ * file is removed again when ingestion fails.
+ *
+ * @example
+ * ```ts
+ * const { job, documentId } = await uploadWithOriginal(supabaseAdmin, doclayer, {
+ *   file,
+ *   projectId: 'my-project',
+ *   ownerId: user.id,
+ * });
+ * ```
+ */
+export async function uploadWithOriginal(
+  supabase: SupabaseClient,
+  doclayer: Pick<DoclayerClient, 'ingest'>,
+  options: UploadWithOriginalOptions
+): Promise<StoredIngestion> {
+  const { file } = options;
+  const filename = options.filename ?? ('name' in file ? file.name : undefined);
+  if (!filename) {
+    throw new Error('filename is required when uploading a Blob');
+  }
+
+  const contentType = options.contentType || file.type || 'application/octet-stream';
+  const checksum = await fileChecksum(file);
+
+  const duplicate = await reuseDuplicate(supabase, options, options.dedupe ?? 'force', {
+    filename,
+    file_type: contentType,
+    file_size_bytes: file.size,
+    checksum,
+    ...(options.sourceUrl && { source_url: options.sourceUrl }),
+  });
+  if (duplicate) return duplicate;
+
+  const bucket = options.bucket ?? DEFAULT_DOCUMENT_BUCKET;
+  const path = options.path ?? originalPath(options.ownerId, filename);
+
+  const { error: storageError } = await supabase.storage.from(bucket).upload(path, file, { contentType });
+  if (storageError) throw storageError;
+
+  // Without a job there is no document row pointing at the stored original,
+  // so it is removed again instead of being left behind
+  let job: IngestionJob;
+  try {
+    job = await doclayer.ingest.upload({
+      file,
+      projectId: options.projectId,
+      agentId: options.agentId,
+      filename,
+    });
+  } catch (error) {
+    // A failed removal is not reported over the ingestion error
+    await supabase.storage.from(bucket).remove([path]);
+    throw error;
+  }
+
+  const documentId = await trackDocument(supabase, job, options, {
+    filename,
+    file_type: contentType,
+    file_size_bytes: file.size,
+    checksum,
+    storage_bucket: bucket,
+    storage_path: path,
+    ...(options.sourceUrl && { source_url: options.sourceUrl }),
+  });
+
+  return { job, documentId, bucket, path };
+}
+
+/**
+ * Ingest a file that is already in Supabase Storage, e.g. one the browser
+ * uploaded directly, and track it in `doclayer_documents` with its checksum.
+ * `dedupe` is handled like in {@link uploadWithOriginal}.
+ */
+export async function ingestFromStorage(
+  supabase: SupabaseClient,
+  doclayer: Pick<DoclayerClient, 'ingest'>,
+  options: IngestFromStorageOptions
+): Promise<StoredIngestion> {
+  const bucket = options.bucket ?? DEFAULT_DOCUMENT_BUCKET;
+  const filename = options.filename ?? options.path.split('/').pop()!;
+
+  const { data: file, error: downloadError } = await supabase.storage.from(bucket).download(options.path);
+  if (downloadError) throw downloadError;
+
+  const validated = options.validation ? await validateUpload(file, { ...options.validation, filename }) : null;
+  const fileType = validated?.mimeType ?? file.type;
+  const checksum = await fileChecksum(file);
+
+  const duplicate = await reuseDuplicate(supabase, options, options.dedupe ?? 'force', {
+    filename,
+    file_type: fileType,
+    file_size_bytes: file.size,
+    checksum,
+    ...(options.reprocessedFrom && { reprocessed_from: options.reprocessedFrom }),
+  });
+  if (duplicate) return duplicate;
+
+  const job = await doclayer.ingest.upload({
+    file,
+    projectId: options.projectId,
+    agentId: options.agentId,
+    filename,
+  });
+
+  const documentId = await trackDocument(supabase, job, options, {
+    filename,
+    file_type: fileType,
+    file_size_bytes: file.size,
+    checksum,
+    storage_bucket: bucket,
+    storage_path: options.path,
+    ...(options.reprocessedFrom && { reprocessed_from: options.reprocessedFrom }),
+  });
+
+  return { job, documentId, bucket, path: options.path };
+}
+
+/**
+ * Re-submit the stored original of a document, e.g. with a different agent.
+ * Creates a new `doclayer_documents` row that points back to the original
+ * through `reprocessed_from`; the original row and its extractions are kept.
+ */
+export async function reprocessDocument(
+  supabase: SupabaseClient,
+  doclayer: Pick<DoclayerClient, 'ingest'>,
+  documentId: string,
+  options: ReprocessOptions = {}
+): Promise<StoredIngestion> {
+  const { data, error } = await supabase
+    .from('doclayer_documents')
+    .select('id, filename, project_id, agent_template_id, storage_bucket, storage_path, owner_id, org_id')
+    .eq('id', documentId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const document = data as StoredDocumentRow | null;
+  if (!document) {
+    throw new Error(`Document ${documentId} not found`);
+  }
+  if (!document.storage_path) {
+    throw new Error(`Document ${documentId} has no stored original`);
+  }
+
+  const projectId = options.projectId ?? document.project_id;
+  if (!projectId) {
+    throw new Error(`Document ${documentId} has no project; pass projectId`);
+  }
+
+  return ingestFromStorage(supabase, doclayer, {
+    path: document.storage_path,
+    bucket: document.storage_bucket ?? undefined,
+    filename: document.filename ?? undefined,
+    projectId,
+    agentId: options.agentId ?? document.agent_template_id ?? undefined,
+    ownerId: document.owner_id ?? undefined,
+    orgId: document.org_id,
+    reprocessedFrom: document.id,
+  });
+}
+
+// ============================================================================
+// Duplicates
+// ============================================================================
+
+/**
+ * SHA-256 of a file as lowercase hex, the format stored in
+ * `doclayer_documents.checksum`
+ */
+export async function fileChecksum(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The latest completed document in a project with the given checksum, or
+ * null. Linked duplicates are never returned, only the documents they link to.
+ */
+export async function findDuplicateDocument(
+  supabase: SupabaseClient,
+  lookup: DuplicateLookup
+): Promise<DuplicateDocument | null> {
+  let query = supabase
+    .from('doclayer_documents')
+    .select('id, doclayer_job_id, doclayer_document_id, storage_bucket, storage_path, insights_count, created_at, updated_at')
+    .eq('project_id', lookup.projectId)
+    .eq('checksum', lookup.checksum)
+    .eq('status', 'completed')
+    .is('duplicate_of', null);
+
+  if (lookup.agentId) {
+    query = query.eq('agent_template_id', lookup.agentId);
+  }
+
+  // Don't hand out documents the uploader couldn't see
+  const scopes = [
+    lookup.ownerId && `owner_id.eq.${lookup.ownerId}`,
+    lookup.orgId && `org_id.eq.${lookup.orgId}`,
+  ].filter(Boolean);
+  if (scopes.length > 0) {
+    query = query.or(scopes.join(','));
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as DuplicateDocument | null;
+}
+
+/**
+ * Signed URL of a document's stored original, e.g. to show the PDF next to
+ * its extractions. Works with the user's client when storage policies allow it.
+ */
+export async function getOriginalUrl(
+  supabase: SupabaseClient,
+  document: { storage_bucket: string | null; storage_path: string | null },
+  expiresIn = 3600
+): Promise<string | null> {
+  if (!document.storage_path) return null;
+
+  const { data, error } = await supabase.storage
+    .from(document.storage_bucket ?? DEFAULT_DOCUMENT_BUCKET)
+    .createSignedUrl(document.storage_path, expiresIn);
+
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function originalPath(ownerId: string | undefined, filename: string): string {
+  const safeName = filename.replace(/[^\w.-]+/g, '_');
+  return `${ownerId ?? 'shared'}/${crypto.randomUUID()}/${safeName}`;
+}
+
+// With `skip` the completed document matching the checksum, with `link` a new
+// row linked to it; null when there is none or the file is ingested anyway
+async function reuseDuplicate(
+  supabase: SupabaseClient,
+  options: StoredDocumentOptions,
+  dedupe: DedupeMode,
+  values: { filename: string; checksum: string } & Record<string, unknown>
+): Promise<StoredIngestion | null> {
+  if (dedupe === 'force') return null;
+
+  const existing = await findDuplicateDocument(supabase, {
+    checksum: values.checksum,
+    projectId: options.projectId,
+    agentId: options.agentId,
+    ownerId: options.ownerId,
+    orgId: options.orgId,
+  });
+  if (!existing) return null;
+
+  const duplicate = {
+    job: {
+      job_id: existing.doclayer_job_id,
+      document_id: existing.doclayer_document_id ?? undefined,
+      status: 'completed' as const,
+      filename: values.filename,
+      created_at: existing.created_at,
+      updated_at: existing.updated_at,
+    },
+    bucket: existing.storage_bucket ?? options.bucket ?? DEFAULT_DOCUMENT_BUCKET,
+    path: existing.storage_path ?? '',
+    duplicateOf: existing.id,
+  };
+
+  if (dedupe === 'skip') {
+    return { ...duplicate, documentId: existing.id };
+  }
+
+  const documentId = await linkDuplicate(supabase, existing, options, values);
+  return { ...duplicate, documentId };
+}
+
+// A row for the uploader that shares the existing document's original and
+// results instead of being processed again
+async function linkDuplicate(
+  supabase: SupabaseClient,
+  existing: DuplicateDocument,
+  options: StoredDocumentOptions,
+  values: Record<string, unknown>
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('doclayer_documents')
+    .insert({
+      ...values,
+      status: 'completed',
+      insights_count: existing.insights_count ?? 0,
+      project_id: options.projectId,
+      agent_template_id: options.agentId ?? null,
+      storage_bucket: existing.storage_bucket,
+      storage_path: existing.storage_path,
+      duplicate_of: existing.id,
+      ...(options.ownerId && { owner_id: options.ownerId }),
+      ...(options.orgId !== undefined && { org_id: options.orgId }),
+      ...(options.uploadBatchId && { upload_batch_id: options.uploadBatchId }),
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+// Insert the document row; a webhook for the job may already have created it,
+// in which case only the ownership and storage columns are filled in
+async function trackDocument(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  options: StoredDocumentOptions,
+  values: Record<string, unknown>
+): Promise<string> {
+  const claimed = {
+    ...values,
+    ...(options.ownerId && { owner_id: options.ownerId }),
+    ...(options.orgId !== undefined && { org_id: options.orgId }),
+    ...(options.uploadBatchId && { upload_batch_id: options.uploadBatchId }),
+  };
+
+  const { data, error } = await supabase
+    .from('doclayer_documents')
+    .insert({
+      ...claimed,
+      doclayer_job_id: job.job_id,
+      status: 'processing',
+      project_id: options.projectId,
+      agent_template_id: options.agentId ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (!error) return data.id;
+  if (error.code !== '23505') throw error;
+
+  const { data: existing, error: updateError } = await supabase
+    .from('doclayer_documents')
+    .update(claimed)
+    .eq('doclayer_job_id', job.job_id)
+    .select('id')
+    .single();
+
+  if (updateError) throw updateError;
+  return existing.id;
+}
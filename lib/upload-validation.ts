@@ -0,0 +1,492 @@
+/**
+ * Upload validation
+ *
+ * Checks files before they are stored or sent to Doclayer: size limit,
+ * allowed extensions and MIME types (detected from the file's magic bytes,
+ * not the client-supplied `file.type`) and a PDF page limit. Used by the
+ * `upload-document` Edge Function; call it from your own upload routes to
+ * enforce the same rules.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UploadValidationOptions {
+  /** Maximum file size in bytes (default: 50 MB) */
+  maxBytes?: number;
+  /** Allowed file extensions, without the dot (default: {@link DEFAULT_ALLOWED_EXTENSIONS}) */
+  allowedExtensions?: string[];
+  /** Allowed detected MIME types (default: those of the allowed extensions) */
+  allowedMimeTypes?: string[];
+  /** Maximum number of pages of a PDF; PDFs whose pages cannot be counted are rejected (default: no limit) */
+  maxPdfPages?: number;
+  /** Name to take the extension from; defaults to `file.name` */
+  filename?: string;
+}
+
+export interface ValidatedUpload {
+  filename: string;
+  extension: string;
+  /** MIME type detected from the file contents */
+  mimeType: string;
+  size: number;
+  /** Pages of a PDF, when `maxPdfPages` was checked */
+  pageCount?: number;
+}
+
+export type UploadValidationFailure =
+  | 'empty_file'
+  | 'file_too_large'
+  | 'unsupported_extension'
+  | 'unsupported_type'
+  | 'type_mismatch'
+  | 'too_many_pages'
+  | 'invalid_pdf'
+  | 'too_many_files'
+  | 'archive_too_large'
+  | 'invalid_archive';
+
+export class UploadValidationError extends Error {
+  /** HTTP status to answer with: 400, 413 or 415 */
+  status: number;
+  code: UploadValidationFailure;
+  details: Record<string, unknown>;
+
+  constructor(message: string, status: number, code: UploadValidationFailure, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = 'UploadValidationError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const DEFAULT_MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+export const DEFAULT_ALLOWED_EXTENSIONS = ['pdf', 'doc', 'docx', 'txt', 'png', 'jpg', 'jpeg'];
+
+/** Canonical MIME type of each supported extension */
+export const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  webp: 'image/webp',
+  doc: 'application/msword',
+  xls: 'application/vnd.ms-excel',
+  ppt: 'application/vnd.ms-powerpoint',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  zip: 'application/zip',
+};
+
+// Bytes read to detect the type; enough for the first entries of a ZIP
+const SNIFF_BYTES = 64 * 1024;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate an upload, throwing an {@link UploadValidationError} with the HTTP
+ * status to answer with (413 for size and page limits, 415 for file types).
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await validateUpload(file, { maxBytes: 20 * 1024 * 1024, maxPdfPages: 200 });
+ * } catch (err) {
+ *   if (err instanceof UploadValidationError) {
+ *     return Response.json({ error: err.message, code: err.code, ...err.details }, { status: err.status });
+ *   }
+ *   throw err;
+ * }
+ * ```
+ */
+export async function validateUpload(
+  file: Blob | File,
+  options: UploadValidationOptions = {}
+): Promise<ValidatedUpload> {
+  const filename = options.filename ?? ('name' in file ? file.name : '');
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_UPLOAD_BYTES;
+  const allowedExtensions = (options.allowedExtensions ?? DEFAULT_ALLOWED_EXTENSIONS).map((ext) =>
+    ext.replace(/^\./, '').toLowerCase()
+  );
+
+  if (file.size === 0) {
+    throw new UploadValidationError('File is empty', 400, 'empty_file');
+  }
+
+  if (file.size > maxBytes) {
+    throw new UploadValidationError(`File exceeds the maximum size of ${maxBytes} bytes`, 413, 'file_too_large', {
+      size: file.size,
+      max_bytes: maxBytes,
+    });
+  }
+
+  if (!allowedExtensions.includes(extension)) {
+    throw new UploadValidationError(
+      extension ? `Files of type .${extension} are not allowed` : 'File has no extension',
+      415,
+      'unsupported_extension',
+      { extension, allowed_extensions: allowedExtensions }
+    );
+  }
+
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const mimeType = detectMimeType(head, extension);
+  const allowedMimeTypes = options.allowedMimeTypes ?? [
+    ...new Set(allowedExtensions.map((ext) => EXTENSION_MIME_TYPES[ext]).filter(Boolean)),
+  ];
+
+  if (!mimeType || !allowedMimeTypes.includes(mimeType)) {
+    throw new UploadValidationError('File content is not of an allowed type', 415, 'unsupported_type', {
+      detected_type: mimeType,
+      allowed_types: allowedMimeTypes,
+    });
+  }
+
+  // A renamed file, e.g. an executable uploaded as .pdf
+  const expected = EXTENSION_MIME_TYPES[extension];
+  if (expected && expected !== mimeType) {
+    throw new UploadValidationError(
+      `File content (${mimeType}) does not match its .${extension} extension`,
+      415,
+      'type_mismatch',
+      { detected_type: mimeType, expected_type: expected }
+    );
+  }
+
+  const result: ValidatedUpload = { filename, extension, mimeType, size: file.size };
+
+  if (mimeType === 'application/pdf' && options.maxPdfPages !== undefined) {
+    const pageCount = await countPdfPages(new Uint8Array(await file.arrayBuffer()));
+
+    // A PDF whose page tree cannot be read could have any number of pages
+    if (pageCount === null) {
+      throw new UploadValidationError('PDF pages could not be counted', 400, 'invalid_pdf', {
+        max_pages: options.maxPdfPages,
+      });
+    }
+
+    result.pageCount = pageCount;
+    if (pageCount > options.maxPdfPages) {
+      throw new UploadValidationError(
+        `PDF has ${pageCount} pages, more than the maximum of ${options.maxPdfPages}`,
+        413,
+        'too_many_pages',
+        { page_count: pageCount, max_pages: options.maxPdfPages }
+      );
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Type Detection
+// ============================================================================
+
+/**
+ * Detect a file's MIME type from its first bytes. Container formats (ZIP,
+ * OLE) and plain text are told apart with the help of the extension.
+ * Returns null for unrecognized binary content.
+ */
+export function detectMimeType(bytes: Uint8Array, extension = ''): string | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, index) => bytes[offset + index] === byte);
+
+  if (startsWith([0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf';
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+  if (startsWith([0x49, 0x49, 0x2a, 0x00]) || startsWith([0x4d, 0x4d, 0x00, 0x2a])) return 'image/tiff';
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+
+  // Office Open XML documents are ZIP archives; their part names tell them apart
+  if (startsWith([0x50, 0x4b, 0x03, 0x04])) {
+    const text = latin1(bytes);
+    const parts: Record<string, string> = { docx: 'word/', xlsx: 'xl/', pptx: 'ppt/' };
+    const part = parts[extension];
+    return part && text.includes(part) ? EXTENSION_MIME_TYPES[extension] : 'application/zip';
+  }
+
+  // Legacy Office documents are OLE compound files
+  if (startsWith([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return ['doc', 'xls', 'ppt'].includes(extension) ? EXTENSION_MIME_TYPES[extension] : 'application/x-ole-storage';
+  }
+
+  if (isText(bytes)) {
+    const textTypes = ['csv', 'md', 'html', 'htm'];
+    return textTypes.includes(extension) ? EXTENSION_MIME_TYPES[extension] : 'text/plain';
+  }
+
+  return null;
+}
+
+// UTF-8 without NUL bytes (a truncated trailing character is fine)
+function isText(bytes: Uint8Array): boolean {
+  if (bytes.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function latin1(bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes);
+}
+
+// ============================================================================
+// PDF Pages
+// ============================================================================
+
+/**
+ * Count the pages of a PDF from its document catalog: the trailer's `/Root`
+ * points at the catalog, whose `/Pages` is the root of the page tree and
+ * holds the `/Count`. PDF 1.5+ files may keep these objects in compressed
+ * object streams, which are inflated within a fixed byte budget. When an
+ * object is defined more than once (incremental updates), the largest count
+ * wins. Returns null when the page tree cannot be resolved, or the file has
+ * more objects or object stream data than are read.
+ */
+export async function countPdfPages(bytes: Uint8Array): Promise<number | null> {
+  const roots = rootReferences(bytes);
+  if (!roots?.length) return null;
+
+  const objects = indexObjects(bytes);
+  if (!objects || !(await indexObjectStreams(bytes, objects))) return null;
+
+  let max: number | null = null;
+  for (const root of roots) {
+    for (const catalog of objects.get(root) ?? []) {
+      for (const pagesRef of references(objectText(catalog), 'Pages')) {
+        for (const pages of objects.get(pagesRef) ?? []) {
+          const count = pageCount(pages, objects);
+          if (count !== null) max = Math.max(max ?? 0, count);
+        }
+      }
+    }
+  }
+
+  return max;
+}
+
+// Where an object's contents are: after `N G obj` in the file, or between two
+// offsets of an inflated object stream
+interface PdfObject {
+  bytes: Uint8Array;
+  start: number;
+  end?: number;
+}
+
+const ROOT = asciiBytes('/Root');
+const OBJ = asciiBytes('obj');
+const END_OBJ = asciiBytes('endobj');
+const OBJECT_STREAM = asciiBytes('/ObjStm');
+const END_STREAM = asciiBytes('endstream');
+
+// Bytes decoded for one object; enough for the /Kids of a flat page tree
+// with thousands of pages
+const MAX_OBJECT_BYTES = 256 * 1024;
+// Limits on the work done for one file; files beyond them are not counted
+const MAX_ROOTS = 100;
+const MAX_OBJECTS = 1_000_000;
+const MAX_OBJECT_STREAMS = 10_000;
+const MAX_INFLATED_BYTES = 32 * 1024 * 1024;
+
+// Object numbers of every `/Root N G R` in trailers and cross-reference streams
+function rootReferences(bytes: Uint8Array): number[] | null {
+  const roots = new Set<number>();
+  let matches = 0;
+
+  for (let at = indexOfBytes(bytes, ROOT); at !== -1; at = indexOfBytes(bytes, ROOT, at + ROOT.length)) {
+    if (++matches > MAX_ROOTS) return null;
+    const reference = /^\/Root\s+(\d+)\s+\d+\s+R/.exec(latin1(bytes.subarray(at, at + 64)));
+    if (reference) roots.add(Number(reference[1]));
+  }
+
+  return [...roots];
+}
+
+// Offsets of every `N G obj` in the file by object number, read from the
+// bytes without decoding them
+function indexObjects(bytes: Uint8Array): Map<number, PdfObject[]> | null {
+  const objects = new Map<number, PdfObject[]>();
+  let count = 0;
+
+  for (let at = indexOfBytes(bytes, OBJ); at !== -1; at = indexOfBytes(bytes, OBJ, at + OBJ.length)) {
+    const after = bytes[at + OBJ.length];
+    if (after !== undefined && !isPdfWhitespace(after) && after !== 0x3c && after !== 0x2f && after !== 0x5b) continue;
+
+    // Walk back over "N G " before the keyword
+    let i = at - 1;
+    if (!isPdfWhitespace(bytes[i])) continue;
+    while (i >= 0 && isPdfWhitespace(bytes[i])) i--;
+    const generationEnd = i;
+    while (i >= 0 && isDigit(bytes[i])) i--;
+    if (i === generationEnd || !isPdfWhitespace(bytes[i])) continue;
+    while (i >= 0 && isPdfWhitespace(bytes[i])) i--;
+    const numberEnd = i;
+    while (i >= 0 && isDigit(bytes[i]) && numberEnd - i < 10) i--;
+    if (i === numberEnd || (i >= 0 && isDigit(bytes[i]))) continue;
+
+    if (++count > MAX_OBJECTS) return null;
+    const number = Number(latin1(bytes.subarray(i + 1, numberEnd + 1)));
+    addObject(objects, number, { bytes, start: at + OBJ.length });
+  }
+
+  return objects;
+}
+
+// Add the objects of every object stream to the index. False when a stream
+// cannot be read or the streams exceed the inflate budget, since the page
+// tree could be in it.
+async function indexObjectStreams(bytes: Uint8Array, objects: Map<number, PdfObject[]>): Promise<boolean> {
+  let budget = MAX_INFLATED_BYTES;
+  let streams = 0;
+
+  for (let at = indexOfBytes(bytes, OBJECT_STREAM); at !== -1; at = indexOfBytes(bytes, OBJECT_STREAM, at + 1)) {
+    if (++streams > MAX_OBJECT_STREAMS) return false;
+
+    // The stream dictionary runs from its `obj` keyword to `stream`
+    const windowStart = Math.max(0, at - 1024);
+    const window = latin1(bytes.subarray(windowStart, at + 1024));
+    const dictionaryStart = window.lastIndexOf('obj', at - windowStart);
+    const streamKeyword = />>\s*stream\r?\n/g;
+    streamKeyword.lastIndex = at - windowStart;
+    const keyword = streamKeyword.exec(window);
+    if (dictionaryStart === -1 || !keyword) return false;
+
+    const dictionary = window.slice(dictionaryStart, keyword.index);
+    const count = /\/N\s+(\d+)/.exec(dictionary);
+    const first = /\/First\s+(\d+)/.exec(dictionary);
+    const filter = /\/Filter\s*(\[[^\]]*\]|\/\w+)/.exec(dictionary)?.[1].replace(/[[\]\s]/g, '');
+    if (!count || !first || /\/DecodeParms\b/.test(dictionary)) return false;
+    if (filter !== undefined && filter !== '/FlateDecode') return false;
+
+    const start = windowStart + keyword.index + keyword[0].length;
+    let end = indexOfBytes(bytes, END_STREAM, start);
+    if (end === -1) return false;
+    while (end > start && (bytes[end - 1] === 0x0a || bytes[end - 1] === 0x0d)) end--;
+
+    const data = filter ? await inflate(bytes.slice(start, end), budget) : bytes.subarray(start, end);
+    if (data === null || data.length > budget) return false;
+    budget -= data.length;
+
+    // The stream starts with N pairs of object number and offset from /First
+    const firstOffset = Number(first[1]);
+    const header = latin1(data.subarray(0, firstOffset)).trim().split(/\s+/).map(Number);
+    const entries = Math.min(Number(count[1]), Math.floor(header.length / 2));
+    for (let k = 0; k < entries; k++) {
+      const objectStart = firstOffset + header[2 * k + 1];
+      const objectEnd = k + 1 < entries ? firstOffset + header[2 * k + 3] : data.length;
+      if (!Number.isInteger(header[2 * k]) || !(objectStart <= objectEnd && objectEnd <= data.length)) return false;
+      addObject(objects, header[2 * k], { bytes: data, start: objectStart, end: objectEnd });
+    }
+  }
+
+  return true;
+}
+
+function addObject(objects: Map<number, PdfObject[]>, number: number, object: PdfObject): void {
+  const definitions = objects.get(number);
+  if (definitions) definitions.push(object);
+  else objects.set(number, [object]);
+}
+
+function objectText(object: PdfObject): string {
+  const limit = Math.min(object.bytes.length, object.start + MAX_OBJECT_BYTES);
+  const end = object.end ?? indexOfBytes(object.bytes, END_OBJ, object.start, limit);
+  return latin1(object.bytes.subarray(object.start, end === -1 ? limit : Math.min(end, limit)));
+}
+
+// Object numbers referenced by a key, e.g. `/Pages 3 0 R`
+function references(text: string, key: string): number[] {
+  const pattern = new RegExp(`/${key}\\s+(\\d+)\\s+\\d+\\s+R`, 'g');
+  return [...text.matchAll(pattern)].map((match) => Number(match[1]));
+}
+
+// The largest /Count of a page tree node, following an indirect count
+function pageCount(pages: PdfObject, objects: Map<number, PdfObject[]>): number | null {
+  let max: number | null = null;
+
+  for (const match of objectText(pages).matchAll(/\/Count\s+(\d+)(?:\s+\d+\s+R)?/g)) {
+    const values = match[0].endsWith('R')
+      ? (objects.get(Number(match[1])) ?? []).map((object) => /^\s*(\d+)/.exec(objectText(object))?.[1])
+      : [match[1]];
+    for (const value of values) {
+      if (value !== undefined) max = Math.max(max ?? 0, Number(value));
+    }
+  }
+
+  return max;
+}
+
+// Inflate a zlib stream, giving up once it exceeds maxBytes
+async function inflate(data: BlobPart, maxBytes: number): Promise<Uint8Array | null> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.length;
+      if (total > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  } catch {
+    return null;
+  }
+
+  const output = new Uint8Array(total);
+  let position = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, position);
+    position += chunk.length;
+  }
+  return output;
+}
+
+function isPdfWhitespace(byte: number | undefined): boolean {
+  return byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09 || byte === 0x0c || byte === 0x00;
+}
+
+function isDigit(byte: number | undefined): boolean {
+  return byte !== undefined && byte >= 0x30 && byte <= 0x39;
+}
+
+function asciiBytes(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+// Position of pattern in bytes[from, to), or -1
+function indexOfBytes(bytes: Uint8Array, pattern: Uint8Array, from = 0, to = bytes.length): number {
+  const last = Math.min(to, bytes.length) - pattern.length;
+  for (let i = bytes.indexOf(pattern[0], from); i !== -1 && i <= last; i = bytes.indexOf(pattern[0], i + 1)) {
+    if (pattern.every((byte, offset) => bytes[i + offset] === byte)) return i;
+  }
+  return -1;
+}
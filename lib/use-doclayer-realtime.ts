@@ -14,7 +14,8 @@ import { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
 
 export interface DoclayerDocument {
   id: string;
-  doclayer_job_id: string;
+  /** Null for duplicates linked to an already processed document */
+  doclayer_job_id: string | null;
   doclayer_document_id: string | null;
   filename: string | null;
   file_type: string | null;
@@ -315,6 +316,8 @@ export interface UseWebhookEventsResult {
   clearEvents: () => void;
 }
 
+// Webhook events are not tenant-scoped: with migrations/012 only clients that
+// bypass RLS (e.g. an internal admin tool) receive them
 export function useWebhookEvents(options: UseWebhookEventsOptions): UseWebhookEventsResult {
   const { supabase, limit = 100, onEvent } = options;
 
@@ -0,0 +1,962 @@
+/**
+ * Doclayer webhook event dispatcher
+ *
+ * Routes parsed webhook events to the handlers that sync them into the
+ * Supabase tables created by the migrations. Used by the `doclayer-webhook`
+ * Edge Function for live deliveries and by `replay-webhook-events` to re-run
+ * stored payloads, optionally as a dry run that only reports row changes.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  DoclayerWebhookEvent,
+  DoclayerWebhookEventType,
+  WebhookEventDataMap,
+  WebhookPayload,
+} from './webhooks.ts';
+import type { EmbedFunction } from './search.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A row change made by a handler, or planned by one during a dry run
+ */
+export interface WebhookRowChange {
+  table: string;
+  action: 'insert' | 'upsert' | 'update' | 'replace';
+  /** Columns identifying the affected row(s) */
+  match: Record<string, unknown>;
+  /** Columns written */
+  values: Record<string, unknown>;
+  /** Dry run only: whether a matching row exists */
+  exists?: boolean;
+  /** Dry run only: columns whose stored value would change */
+  changed?: string[];
+  /** Not applied: the event is older than the row's current state, or the row belongs to another organization */
+  stale?: boolean;
+}
+
+export interface WebhookDispatchContext {
+  supabase: SupabaseClient;
+  /** The event as received, stored on synced rows as `raw_payload` */
+  payload: WebhookPayload;
+  /** `x-webhook-delivery` header of the delivery, when known */
+  deliveryId?: string;
+  /** Doclayer API key, needed to fetch extractions for completed documents */
+  apiKey?: string;
+  baseUrl: string;
+  /** Organization the delivery belongs to; stamped on the rows handlers create */
+  orgId?: string | null;
+  /** Whether completed documents have their chunks synced into `doclayer_chunks` */
+  syncChunks: boolean;
+  /** Rows per chunk upsert */
+  chunkBatchSize: number;
+  /** Whether chunk embeddings are stored (needs migrations/010) */
+  storeEmbeddings: boolean;
+  /** Embeds chunks that Doclayer returned without an embedding */
+  embed?: EmbedFunction;
+  dryRun: boolean;
+  /** Row changes made (or planned) so far */
+  changes: WebhookRowChange[];
+}
+
+export type WebhookEventHandler<T extends DoclayerWebhookEventType = DoclayerWebhookEventType> = (
+  data: WebhookEventDataMap[T],
+  context: WebhookDispatchContext
+) => Promise<void>;
+
+export type WebhookEventHandlers = {
+  [T in DoclayerWebhookEventType]?: WebhookEventHandler<T>;
+};
+
+/**
+ * Hooks around the handler of one event type
+ */
+export interface WebhookEventHookSet<T extends DoclayerWebhookEventType = DoclayerWebhookEventType> {
+  /** Runs before the handler */
+  before?: WebhookEventHandler<T>;
+  /** Replaces the built-in handler; `false` skips it */
+  handler?: WebhookEventHandler<T> | false;
+  /** Runs after the handler succeeded */
+  after?: WebhookEventHandler<T>;
+}
+
+/**
+ * Per-event hooks. A plain function runs after the built-in handler.
+ */
+export type WebhookEventHooks = {
+  [T in DoclayerWebhookEventType]?: WebhookEventHandler<T> | WebhookEventHookSet<T>;
+};
+
+/**
+ * Wraps the handling of every event; call `next()` to continue, or return
+ * without calling it to skip the event
+ */
+export type WebhookMiddleware = (
+  event: DoclayerWebhookEvent,
+  context: WebhookDispatchContext,
+  next: () => Promise<void>
+) => Promise<void>;
+
+export interface DispatchOptions {
+  /** Doclayer API key; without it extractions are not synced */
+  apiKey?: string;
+  /** Doclayer API URL (default: https://api.doclayer.ai) */
+  baseUrl?: string;
+  /** Sync chunks of completed documents into `doclayer_chunks` (default: true, needs `apiKey`) */
+  syncChunks?: boolean;
+  /** Rows per chunk upsert (default: 500) */
+  chunkBatchSize?: number;
+  /**
+   * Store chunk embeddings in `doclayer_chunks.embedding` (default: true when
+   * `embed` is given). Requires migrations/010_chunk_embeddings.sql.
+   */
+  storeEmbeddings?: boolean;
+  /** Embeds chunks that Doclayer returned without an embedding */
+  embed?: EmbedFunction;
+  /** Report the row changes the handlers would make without writing anything */
+  dryRun?: boolean;
+  /** Handlers to use instead of {@link defaultWebhookHandlers} */
+  handlers?: WebhookEventHandlers;
+  /** Per-event before/after hooks and handler overrides */
+  on?: WebhookEventHooks;
+  /** Run around every event, outermost first */
+  middleware?: WebhookMiddleware[];
+  /** Delivery ID exposed to handlers as `context.deliveryId` */
+  deliveryId?: string;
+  /** Organization of a multi-tenant delivery (needs migrations/013) */
+  orgId?: string | null;
+}
+
+export interface DispatchResult {
+  eventType: string;
+  /** False when no handler or hook ran for the event type */
+  handled: boolean;
+  dryRun: boolean;
+  /** True when at least one change was skipped as stale */
+  stale: boolean;
+  changes: WebhookRowChange[];
+}
+
+// ============================================================================
+// Dispatcher
+// ============================================================================
+
+/**
+ * Run the handler registered for an event, with any hooks and middleware.
+ *
+ * @example
+ * ```ts
+ * const event = parseWebhookEvent(JSON.stringify(row.payload));
+ * const { changes } = await dispatchWebhookEvent(supabase, event, { dryRun: true });
+ * ```
+ */
+export async function dispatchWebhookEvent(
+  supabase: SupabaseClient,
+  event: DoclayerWebhookEvent,
+  options: DispatchOptions = {}
+): Promise<DispatchResult> {
+  const context: WebhookDispatchContext = {
+    supabase,
+    payload: event as WebhookPayload,
+    deliveryId: options.deliveryId,
+    apiKey: options.apiKey,
+    baseUrl: options.baseUrl || 'https://api.doclayer.ai',
+    orgId: options.orgId,
+    syncChunks: options.syncChunks ?? true,
+    chunkBatchSize: options.chunkBatchSize ?? 500,
+    storeEmbeddings: options.storeEmbeddings ?? options.embed !== undefined,
+    embed: options.embed,
+    dryRun: options.dryRun ?? false,
+    changes: [],
+  };
+
+  const handlers = options.handlers ?? defaultWebhookHandlers;
+  const hook = options.on?.[event.event_type] as WebhookEventHandler | WebhookEventHookSet | undefined;
+  const hooks: WebhookEventHookSet = typeof hook === 'function' ? { after: hook } : hook ?? {};
+  const handler =
+    hooks.handler === false
+      ? undefined
+      : hooks.handler ?? (handlers[event.event_type] as WebhookEventHandler | undefined);
+
+  let handled = false;
+  const run = async () => {
+    for (const step of [hooks.before, handler, hooks.after]) {
+      if (!step) continue;
+      handled = true;
+      await step(event.data, context);
+    }
+  };
+
+  const chain = (options.middleware ?? []).reduceRight<() => Promise<void>>(
+    (next, middleware) => () => middleware(event, context, next),
+    run
+  );
+  await chain();
+
+  return {
+    eventType: event.event_type,
+    handled,
+    dryRun: context.dryRun,
+    stale: context.changes.some((change) => change.stale),
+    changes: context.changes,
+  };
+}
+
+// Tables with an org_id column (migrations/012 and 013)
+const TENANT_TABLES = new Set([
+  'doclayer_documents',
+  'doclayer_batches',
+  'doclayer_workflows',
+  'doclayer_billing_alerts',
+  'doclayer_usage_reports',
+]);
+
+/**
+ * Write a row through the dispatch context. During a dry run the change is
+ * compared against the stored row and recorded instead of written.
+ * Rows created for a tenant's delivery are assigned to its organization;
+ * rows of another organization are left alone and the change is recorded
+ * as stale. Returns whether the change was applied.
+ */
+export async function writeRow(
+  context: WebhookDispatchContext,
+  change: Omit<WebhookRowChange, 'exists' | 'changed' | 'stale'>
+): Promise<boolean> {
+  const { supabase } = context;
+
+  if (context.orgId && TENANT_TABLES.has(change.table)) {
+    let exists = false;
+    if (change.action !== 'insert') {
+      const { data, error } = await supabase.from(change.table).select('org_id').match(change.match);
+      if (error) throw error;
+
+      // Job, batch and workflow IDs come from the payload, so a tenant could
+      // name another organization's row in an event signed with its own secret
+      const rows = (data ?? []) as { org_id: string | null }[];
+      if (rows.some((row) => row.org_id !== null && row.org_id !== context.orgId)) {
+        context.changes.push({ ...change, stale: true, ...(context.dryRun && { exists: true, changed: [] }) });
+        return false;
+      }
+      exists = rows.length > 0;
+    }
+
+    // An existing row keeps its organization
+    if (change.action !== 'update' && !exists) {
+      change = { ...change, values: { ...change.values, org_id: context.orgId } };
+    }
+  }
+
+  if (context.dryRun) {
+    context.changes.push(await planChange(supabase, change));
+    return true;
+  }
+
+  const query = supabase.from(change.table);
+  const { error } =
+    change.action === 'insert'
+      ? await query.insert(change.values)
+      : change.action === 'upsert'
+        ? await query.upsert(change.values, { onConflict: Object.keys(change.match).join(',') })
+        : await query.update(change.values).match(change.match);
+
+  if (error) throw error;
+  context.changes.push(change);
+  return true;
+}
+
+async function planChange(
+  supabase: SupabaseClient,
+  change: Omit<WebhookRowChange, 'exists' | 'changed' | 'stale'>
+): Promise<WebhookRowChange> {
+  if (change.action === 'insert') {
+    return { ...change, exists: false, changed: Object.keys(change.values) };
+  }
+
+  const { data, error } = await supabase
+    .from(change.table)
+    .select('*')
+    .match(change.match)
+    .limit(1);
+
+  if (error) throw error;
+
+  const current = data?.[0] as Record<string, unknown> | undefined;
+  if (!current) {
+    // An update without a matching row writes nothing
+    return { ...change, exists: false, changed: change.action === 'update' ? [] : Object.keys(change.values) };
+  }
+
+  const changed = Object.keys(change.values).filter(
+    (column) => !sameValue(current[column], change.values[column])
+  );
+  return { ...change, exists: true, changed };
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+
+// Compare a stored column with a value about to be written, ignoring JSONB
+// key order and timestamp formatting
+function sameValue(stored: unknown, next: unknown): boolean {
+  if (next === undefined) return true;
+  if (stored === next) return true;
+  if (stored == null || next == null) return stored == next;
+
+  if (typeof stored === 'string' && typeof next === 'string') {
+    if (ISO_DATE.test(stored) && ISO_DATE.test(next)) {
+      return Date.parse(stored) === Date.parse(next);
+    }
+    return false;
+  }
+
+  if (typeof stored === 'object' && typeof next === 'object') {
+    if (Array.isArray(stored) !== Array.isArray(next)) return false;
+    const storedRecord = stored as Record<string, unknown>;
+    const nextRecord = next as Record<string, unknown>;
+    // Undefined values are dropped when the row is serialized
+    const nextKeys = Object.keys(nextRecord).filter((key) => nextRecord[key] !== undefined);
+    return (
+      nextKeys.length === Object.keys(storedRecord).length &&
+      nextKeys.every((key) => key in storedRecord && sameValue(storedRecord[key], nextRecord[key]))
+    );
+  }
+
+  return String(stored) === String(next);
+}
+
+// ============================================================================
+// Error Helpers
+// ============================================================================
+
+// Postgres errors that fail the same way on every redelivery:
+// undefined table/column, invalid input, not-null and check violations
+const PERMANENT_ERROR_CODES = new Set(['42P01', '42703', '22P02', '23502', '23514']);
+
+/**
+ * Normalize a handler failure (Error or PostgrestError) for storage on the
+ * `doclayer_webhook_events` row
+ */
+export function describeWebhookError(error: unknown): { message: string; stack: string | null; code?: string } {
+  if (error instanceof Error) {
+    return {
+      message: error.message,
+      stack: error.stack ?? null,
+      code: (error as { code?: string }).code,
+    };
+  }
+  if (error && typeof error === 'object' && 'message' in error) {
+    // PostgrestError is a plain object, not an Error instance
+    const { message, code, details, hint } = error as Record<string, string | undefined>;
+    return {
+      message: String(message),
+      stack: [details, hint].filter(Boolean).join('\n') || null,
+      code,
+    };
+  }
+  return { message: String(error), stack: null };
+}
+
+/**
+ * Whether a handler failure will recur on every retry, e.g. a missing table
+ */
+export function isPermanentWebhookError(error: unknown): boolean {
+  const { code } = describeWebhookError(error);
+  return code !== undefined && PERMANENT_ERROR_CODES.has(code);
+}
+
+// ============================================================================
+// Status Transitions
+// ============================================================================
+
+// pending -> processing (`running` for workflows) -> completed | failed | cancelled,
+// plus failed -> any status when the job is retried (same job ID, newer events)
+const STATUS_RANK: Record<string, number> = {
+  pending: 0,
+  processing: 1,
+  running: 1,
+  completed: 2,
+  failed: 2,
+  cancelled: 2,
+};
+const FINAL_RANK = 2;
+
+export interface StatusSnapshot {
+  status: string;
+  last_event_at: string | null;
+}
+
+/**
+ * Whether an event must not be applied to a row: it is older than the last
+ * applied event, would move the status backwards, or the row already reached
+ * a final status. A failed row accepts newer events, since `ingest.retry`
+ * reuses the job ID. Mirrors the `enforce_doclayer_status_transition` trigger.
+ *
+ * @param nextStatus - Status the event sets, or undefined for progress events
+ */
+export function isStaleTransition(
+  current: StatusSnapshot | null | undefined,
+  nextStatus: string | undefined,
+  eventAt: string | null
+): boolean {
+  if (!current) return false;
+
+  // Redeliveries of the last applied event are not transitions
+  if (sameInstant(current.last_event_at, eventAt)) return false;
+
+  const newer = current.last_event_at !== null && eventAt !== null;
+  if (newer && Date.parse(eventAt) < Date.parse(current.last_event_at!)) return true;
+
+  // A retried job starts over from failed
+  if (current.status === 'failed' && newer && Date.parse(eventAt) > Date.parse(current.last_event_at!)) {
+    return false;
+  }
+
+  const currentRank = STATUS_RANK[current.status] ?? 0;
+  const nextRank = nextStatus ? STATUS_RANK[nextStatus] ?? 0 : currentRank;
+
+  return nextRank < currentRank || currentRank === FINAL_RANK;
+}
+
+function sameInstant(a: string | null, b: string | null): boolean {
+  if (a === null || b === null) return a === b;
+  return Date.parse(a) === Date.parse(b);
+}
+
+/**
+ * Write a document, batch or workflow row unless the event is stale, and
+ * record its time in `last_event_at`. Returns whether the change was applied.
+ */
+export async function writeStatusRow(
+  context: WebhookDispatchContext,
+  change: Omit<WebhookRowChange, 'exists' | 'changed' | 'stale'>,
+  eventAt: string | null
+): Promise<boolean> {
+  const { data, error } = await context.supabase
+    .from(change.table)
+    .select('status, last_event_at')
+    .match(change.match)
+    .limit(1);
+
+  if (error) throw error;
+
+  const current = data?.[0] as StatusSnapshot | undefined;
+  if (isStaleTransition(current, change.values.status as string | undefined, eventAt)) {
+    context.changes.push({ ...change, stale: true, ...(context.dryRun && { exists: true, changed: [] }) });
+    return false;
+  }
+
+  // The trigger still skips the write if a newer event lands in between
+  return writeRow(context, {
+    ...change,
+    values: eventAt ? { ...change.values, last_event_at: eventAt } : change.values,
+  });
+}
+
+// When the event happened: the data timestamp, else the envelope's
+function eventTime(data: { timestamp?: string }, context: WebhookDispatchContext): string | null {
+  return data.timestamp || context.payload.timestamp || null;
+}
+
+// ============================================================================
+// Document Handlers
+// ============================================================================
+
+async function handleProcessingStarted(
+  data: WebhookEventDataMap['document.processing.started'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeStatusRow(
+    context,
+    {
+      table: 'doclayer_documents',
+      action: 'upsert',
+      match: { doclayer_job_id: data.job_id },
+      values: {
+        doclayer_job_id: data.job_id,
+        checksum: data.checksum,
+        status: 'processing',
+        // Left over from a failed run when the job was retried
+        error_message: null,
+        error_type: null,
+        doclayer_created_at: data.timestamp,
+        raw_payload: context.payload,
+      },
+    },
+    eventTime(data, context)
+  );
+}
+
+async function handleProcessingCompleted(
+  data: WebhookEventDataMap['document.processing.completed'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  const applied = await writeStatusRow(
+    context,
+    {
+      table: 'doclayer_documents',
+      action: 'upsert',
+      match: { doclayer_job_id: data.job_id },
+      values: {
+        doclayer_job_id: data.job_id,
+        doclayer_document_id: data.document_id,
+        status: 'completed',
+        error_message: null,
+        error_type: null,
+        insights_count: data.insights_count,
+        confidence_metrics: data.confidence_metrics,
+        raw_payload: context.payload,
+        updated_at: new Date().toISOString(),
+      },
+    },
+    eventTime(data, context)
+  );
+
+  if (applied && context.apiKey && data.document_id) {
+    await syncExtractions(context, data.job_id, data.document_id);
+    if (context.syncChunks) {
+      await syncChunks(context, data.job_id, data.document_id);
+    }
+  }
+}
+
+async function handleProcessingFailed(
+  data: WebhookEventDataMap['document.processing.failed'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeStatusRow(
+    context,
+    {
+      table: 'doclayer_documents',
+      action: 'upsert',
+      match: { doclayer_job_id: data.job_id },
+      values: {
+        doclayer_job_id: data.job_id,
+        doclayer_document_id: data.document_id,
+        status: 'failed',
+        error_message: data.error,
+        error_type: data.error_type,
+        raw_payload: context.payload,
+        updated_at: new Date().toISOString(),
+      },
+    },
+    eventTime(data, context)
+  );
+}
+
+// Fetch a document's extractions from Doclayer and replace the stored ones
+async function syncExtractions(
+  context: WebhookDispatchContext,
+  jobId: string,
+  documentId: string
+): Promise<void> {
+  const change: WebhookRowChange = {
+    table: 'doclayer_extractions',
+    action: 'replace',
+    match: { doclayer_job_id: jobId },
+    values: {},
+  };
+
+  // Dry runs never call the Doclayer API
+  if (context.dryRun) {
+    context.changes.push(change);
+    return;
+  }
+
+  const extractionsData = await fetchFromDoclayer(context, `/api/v4/documents/${documentId}/extractions`);
+  const docRowId = await findDocumentRowId(context, jobId);
+
+  const extractions = (extractionsData.extractions || []).map((ext: Record<string, unknown>) => ({
+    extraction_type: ext.type || 'unknown',
+    extraction_key: ext.key,
+    content: ext.value || ext.content || ext,
+    confidence: ext.confidence,
+    page_number: ext.page,
+    source_text: ext.source_text,
+  }));
+
+  // Replace the document's extractions in one transaction so redeliveries
+  // of the completed event never produce duplicates
+  const { error } = await context.supabase.rpc('replace_doclayer_extractions', {
+    p_document_id: docRowId,
+    p_extractions: extractions,
+  });
+
+  if (error) throw error;
+  context.changes.push({ ...change, values: { count: extractions.length } });
+}
+
+// Fetch a document's chunks from Doclayer and upsert them in batches
+async function syncChunks(
+  context: WebhookDispatchContext,
+  jobId: string,
+  documentId: string
+): Promise<void> {
+  const change: WebhookRowChange = {
+    table: 'doclayer_chunks',
+    action: 'replace',
+    match: { doclayer_job_id: jobId },
+    values: {},
+  };
+
+  if (context.dryRun) {
+    context.changes.push(change);
+    return;
+  }
+
+  const chunksData = await fetchFromDoclayer(context, `/api/v4/documents/${documentId}/chunks`);
+  const docRowId = await findDocumentRowId(context, jobId);
+
+  const chunks: ChunkRow[] = (Array.isArray(chunksData) ? chunksData : chunksData.chunks || chunksData.data || []).map(
+    (chunk: Record<string, unknown>, index: number) => ({
+      document_id: docRowId,
+      doclayer_chunk_id: chunk.id,
+      chunk_index: chunk.chunk_index ?? index,
+      content: chunk.content ?? '',
+      page_number: chunk.page_number ?? chunk.page,
+      metadata: chunk.metadata ?? {},
+      ...(context.storeEmbeddings && { embedding: Array.isArray(chunk.embedding) ? chunk.embedding : null }),
+    })
+  );
+
+  for (let start = 0; start < chunks.length; start += context.chunkBatchSize) {
+    const batch = chunks.slice(start, start + context.chunkBatchSize);
+    if (context.storeEmbeddings && context.embed) {
+      await embedMissing(batch, context.embed);
+    }
+
+    const { error } = await context.supabase
+      .from('doclayer_chunks')
+      .upsert(batch, { onConflict: 'document_id,chunk_index' });
+
+    if (error) throw error;
+  }
+
+  // Drop chunks left over from an earlier, longer version of the document
+  const lastIndex = chunks.reduce((max, chunk) => Math.max(max, chunk.chunk_index), -1);
+  const { error } = await context.supabase
+    .from('doclayer_chunks')
+    .delete()
+    .eq('document_id', docRowId)
+    .gt('chunk_index', lastIndex);
+
+  if (error) throw error;
+  context.changes.push({ ...change, values: { count: chunks.length } });
+}
+
+interface ChunkRow {
+  document_id: string;
+  doclayer_chunk_id: string;
+  chunk_index: number;
+  content: string;
+  page_number?: number;
+  metadata: Record<string, unknown>;
+  embedding?: number[] | null;
+}
+
+// Fill in embeddings for chunks Doclayer returned without one
+async function embedMissing(chunks: ChunkRow[], embed: EmbedFunction): Promise<void> {
+  const missing = chunks.filter((chunk) => !chunk.embedding);
+  if (missing.length === 0) return;
+
+  const embeddings = await embed(missing.map((chunk) => chunk.content));
+  if (embeddings.length !== missing.length) {
+    throw new Error(`Embedding function returned ${embeddings.length} vectors for ${missing.length} chunks`);
+  }
+
+  missing.forEach((chunk, i) => {
+    chunk.embedding = embeddings[i];
+  });
+}
+
+// GET a Doclayer API path with the dispatch context's credentials
+async function fetchFromDoclayer(context: WebhookDispatchContext, path: string) {
+  const response = await fetch(`${context.baseUrl}${path}`, {
+    headers: { Authorization: `Bearer ${context.apiKey}` },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${path}: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+// Local doclayer_documents.id for a Doclayer job
+async function findDocumentRowId(context: WebhookDispatchContext, jobId: string): Promise<string> {
+  const { data: docRecord } = await context.supabase
+    .from('doclayer_documents')
+    .select('id')
+    .eq('doclayer_job_id', jobId)
+    .single();
+
+  if (!docRecord) {
+    throw new Error(`Document record not found: ${jobId}`);
+  }
+
+  return docRecord.id;
+}
+
+// ============================================================================
+// Batch Handlers
+// ============================================================================
+
+// Final events upsert, so a batch that finishes before its `started` event
+// arrives still gets a row, and the late `started` event is then stale
+
+async function handleBatchStarted(
+  data: WebhookEventDataMap['batch.started'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeStatusRow(
+    context,
+    {
+      table: 'doclayer_batches',
+      action: 'upsert',
+      match: { batch_id: data.batch_id },
+      values: {
+        batch_id: data.batch_id,
+        total_documents: data.total_documents,
+        project_id: data.project_id,
+        status: 'processing',
+        started_at: data.timestamp,
+        raw_payload: context.payload,
+      },
+    },
+    eventTime(data, context)
+  );
+}
+
+async function handleBatchProgress(
+  data: WebhookEventDataMap['batch.progress'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeStatusRow(
+    context,
+    {
+      table: 'doclayer_batches',
+      action: 'update',
+      match: { batch_id: data.batch_id },
+      values: {
+        completed_count: data.completed,
+        failed_count: data.failed,
+        updated_at: new Date().toISOString(),
+      },
+    },
+    eventTime(data, context)
+  );
+}
+
+async function handleBatchCompleted(
+  data: WebhookEventDataMap['batch.completed'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeStatusRow(
+    context,
+    {
+      table: 'doclayer_batches',
+      action: 'upsert',
+      match: { batch_id: data.batch_id },
+      values: {
+        batch_id: data.batch_id,
+        total_documents: data.total_documents,
+        status: 'completed',
+        completed_count: data.successful,
+        failed_count: data.failed,
+        duration_seconds: data.duration_seconds,
+        completed_at: data.timestamp,
+        raw_payload: context.payload,
+        updated_at: new Date().toISOString(),
+      },
+    },
+    eventTime(data, context)
+  );
+}
+
+async function handleBatchFailed(
+  data: WebhookEventDataMap['batch.failed'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeStatusRow(
+    context,
+    {
+      table: 'doclayer_batches',
+      action: 'upsert',
+      match: { batch_id: data.batch_id },
+      values: {
+        batch_id: data.batch_id,
+        total_documents: data.total,
+        status: 'failed',
+        error_message: data.error,
+        error_type: data.error_type,
+        completed_count: data.completed,
+        raw_payload: context.payload,
+        updated_at: new Date().toISOString(),
+      },
+    },
+    eventTime(data, context)
+  );
+}
+
+// ============================================================================
+// Billing Handlers
+// ============================================================================
+
+// Billing rows have no natural key; the delivery ID keeps redeliveries and
+// replays from adding duplicates (needs migrations/018)
+function billingRow(
+  context: WebhookDispatchContext,
+  table: string,
+  values: Record<string, unknown>
+): Omit<WebhookRowChange, 'exists' | 'changed' | 'stale'> {
+  if (!context.deliveryId) {
+    return { table, action: 'insert', match: {}, values };
+  }
+
+  return {
+    table,
+    action: 'upsert',
+    match: { event_id: context.deliveryId },
+    values: { ...values, event_id: context.deliveryId },
+  };
+}
+
+async function handleBillingCreditsLow(
+  data: WebhookEventDataMap['billing.credits.low'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeRow(context, billingRow(context, 'doclayer_billing_alerts', {
+    alert_type: 'credits_low',
+    current_balance: data.current_balance,
+    threshold: data.threshold,
+    currency: data.currency,
+    raw_payload: context.payload,
+  }));
+}
+
+async function handleBillingCreditsExhausted(
+  data: WebhookEventDataMap['billing.credits.exhausted'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeRow(context, billingRow(context, 'doclayer_billing_alerts', {
+    alert_type: 'credits_exhausted',
+    current_balance: data.current_balance,
+    currency: data.currency,
+    raw_payload: context.payload,
+  }));
+}
+
+async function handleBillingUsageReport(
+  data: WebhookEventDataMap['billing.usage.report'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeRow(context, billingRow(context, 'doclayer_usage_reports', {
+    period_start: data.period_start,
+    period_end: data.period_end,
+    total_documents: data.total_documents,
+    total_pages: data.total_pages,
+    total_cost: data.total_cost,
+    currency: data.currency,
+    raw_payload: context.payload,
+  }));
+}
+
+// ============================================================================
+// Workflow Handlers
+// ============================================================================
+
+async function handleWorkflowStarted(
+  data: WebhookEventDataMap['workflow.started'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeStatusRow(
+    context,
+    {
+      table: 'doclayer_workflows',
+      action: 'upsert',
+      match: { workflow_id: data.workflow_id },
+      values: {
+        workflow_id: data.workflow_id,
+        workflow_type: data.workflow_type,
+        document_id: data.document_id,
+        status: 'running',
+        started_at: data.timestamp,
+        raw_payload: context.payload,
+      },
+    },
+    eventTime(data, context)
+  );
+}
+
+async function handleWorkflowCompleted(
+  data: WebhookEventDataMap['workflow.completed'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeStatusRow(
+    context,
+    {
+      table: 'doclayer_workflows',
+      action: 'upsert',
+      match: { workflow_id: data.workflow_id },
+      values: {
+        workflow_id: data.workflow_id,
+        workflow_type: data.workflow_type,
+        document_id: data.document_id,
+        status: 'completed',
+        result: data.result,
+        duration_seconds: data.duration_seconds,
+        completed_at: data.timestamp,
+        raw_payload: context.payload,
+        updated_at: new Date().toISOString(),
+      },
+    },
+    eventTime(data, context)
+  );
+}
+
+async function handleWorkflowFailed(
+  data: WebhookEventDataMap['workflow.failed'],
+  context: WebhookDispatchContext
+): Promise<void> {
+  await writeStatusRow(
+    context,
+    {
+      table: 'doclayer_workflows',
+      action: 'upsert',
+      match: { workflow_id: data.workflow_id },
+      values: {
+        workflow_id: data.workflow_id,
+        workflow_type: data.workflow_type,
+        document_id: data.document_id,
+        status: 'failed',
+        error_message: data.error,
+        error_type: data.error_type,
+        raw_payload: context.payload,
+        updated_at: new Date().toISOString(),
+      },
+    },
+    eventTime(data, context)
+  );
+}
+
+/**
+ * Handlers that sync each event type into the tables from the migrations
+ */
+export const defaultWebhookHandlers: WebhookEventHandlers = {
+  'document.processing.started': handleProcessingStarted,
+  'document.processing.completed': handleProcessingCompleted,
+  'document.processing.failed': handleProcessingFailed,
+  'batch.started': handleBatchStarted,
+  'batch.progress': handleBatchProgress,
+  'batch.completed': handleBatchCompleted,
+  'batch.failed': handleBatchFailed,
+  'billing.credits.low': handleBillingCreditsLow,
+  'billing.credits.exhausted': handleBillingCreditsExhausted,
+  'billing.usage.report': handleBillingUsageReport,
+  'workflow.started': handleWorkflowStarted,
+  'workflow.completed': handleWorkflowCompleted,
+  'workflow.failed': handleWorkflowFailed,
+  // Test events are acknowledged without touching the database
+  'test.ping': async () => {},
+};
@@ -0,0 +1,390 @@
+/**
+ * Doclayer webhook request handler
+ *
+ * `createDoclayerWebhookHandler` turns a Supabase client and a set of hooks
+ * into a `(req: Request) => Promise<Response>` handler: it verifies the
+ * delivery, logs it to `doclayer_webhook_events`, skips duplicates, runs the
+ * built-in database sync plus your hooks, and records failures. The shipped
+ * `doclayer-webhook` Edge Function is a thin wrapper around it.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  parseWebhookEvent,
+  verifyDelivery,
+  WebhookVerificationError,
+  type DoclayerWebhookEvent,
+  type WebhookPayload,
+  type WebhookSecret,
+  type WebhookVerifyOptions,
+} from './webhooks.ts';
+import {
+  describeWebhookError,
+  dispatchWebhookEvent,
+  isPermanentWebhookError,
+  type WebhookEventHandlers,
+  type WebhookEventHooks,
+  type WebhookMiddleware,
+} from './webhook-dispatcher.ts';
+import type { EmbedFunction } from './search.ts';
+import type { WebhookTenant } from './credentials.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DoclayerWebhookHandlerOptions {
+  /** Supabase client with the service role key */
+  supabase: SupabaseClient;
+  /**
+   * Signing secret(s); when empty, signatures are not checked. Pass a function
+   * to load them per delivery, e.g. with `loadTenantWebhookSecrets`.
+   */
+  secrets?: string | WebhookSecret[] | (() => Promise<WebhookSecret[]>);
+  /**
+   * Identify the tenant of a verified delivery, e.g. with
+   * `resolveWebhookTenant`. Its credentials replace `apiKey`/`baseUrl`
+   * and its organization is stamped on synced rows.
+   */
+  resolveTenant?: (delivery: { secretId?: string; event: DoclayerWebhookEvent }) => Promise<WebhookTenant | null>;
+  /** Signed-timestamp checks, see {@link WebhookVerifyOptions} */
+  verify?: WebhookVerifyOptions;
+  /** Doclayer API key, needed to sync extractions of completed documents */
+  apiKey?: string;
+  /** Doclayer API URL (default: https://api.doclayer.ai) */
+  baseUrl?: string;
+  /** Sync chunks of completed documents into `doclayer_chunks` (default: true) */
+  syncChunks?: boolean;
+  /** Store chunk embeddings for local vector search (needs migrations/010) */
+  storeEmbeddings?: boolean;
+  /** Embeds chunks that Doclayer returned without an embedding */
+  embed?: EmbedFunction;
+  /** Failed attempts before an event is dead-lettered (default: 5) */
+  maxAttempts?: number;
+  /** Base handlers (default: the built-in database sync) */
+  handlers?: WebhookEventHandlers;
+  /** Per-event hooks and overrides */
+  on?: WebhookEventHooks;
+  /** Run around every event, outermost first */
+  middleware?: WebhookMiddleware[];
+}
+
+type FailureOutcome = 'failed' | 'dead_letter';
+
+// ============================================================================
+// Handler
+// ============================================================================
+
+/**
+ * Create a webhook request handler.
+ *
+ * @example
+ * ```ts
+ * serve(createDoclayerWebhookHandler({
+ *   supabase: createClient(url, serviceRoleKey),
+ *   secrets: Deno.env.get('DOCLAYER_WEBHOOK_SECRET'),
+ *   on: {
+ *     // Runs after the built-in sync
+ *     'document.processing.completed': async (data) => {
+ *       await notifySlack(`Document ${data.document_id} is ready`);
+ *     },
+ *     // Replace the built-in handler
+ *     'billing.usage.report': { handler: storeUsageInWarehouse },
+ *   },
+ * }));
+ * ```
+ */
+export function createDoclayerWebhookHandler(
+  options: DoclayerWebhookHandlerOptions
+): (req: Request) => Promise<Response> {
+  const { supabase } = options;
+  const loadSecrets = async (): Promise<WebhookSecret[]> => {
+    const secrets =
+      typeof options.secrets === 'function'
+        ? await options.secrets()
+        : typeof options.secrets === 'string'
+          ? [{ secret: options.secrets }]
+          : options.secrets ?? [];
+    return secrets.filter((secret) => secret.secret);
+  };
+  const maxAttempts = options.maxAttempts ?? 5;
+
+  return async (req: Request): Promise<Response> => {
+    // Only accept POST requests
+    if (req.method !== 'POST') {
+      return json({ error: 'Method not allowed' }, 405);
+    }
+
+    try {
+      // Read raw body for signature verification
+      const rawBody = await req.text();
+      const deliveryId = req.headers.get('x-webhook-delivery') || 'unknown';
+
+      // Verify webhook signature if secrets are configured
+      const activeSecrets = await loadSecrets();
+      const signatureChecked = activeSecrets.length > 0;
+      let secretId: string | undefined;
+      if (signatureChecked) {
+        const verification = await verifyDelivery(rawBody, req.headers, activeSecrets, options.verify);
+
+        if (!verification.valid) {
+          const reason = `Signature verification failed: ${verification.reason}`;
+          console.error(`Rejected webhook: ${reason} (delivery: ${deliveryId})`);
+          await recordRejectedDelivery(supabase, rawBody, req.headers, deliveryId, reason);
+          return json({ error: 'Invalid signature' }, 401);
+        }
+        secretId = verification.secretId;
+      }
+
+      // Parse payload
+      let event: DoclayerWebhookEvent;
+      try {
+        event = parseWebhookEvent(rawBody, req.headers);
+      } catch (error) {
+        if (error instanceof WebhookVerificationError) {
+          console.error(`Rejected webhook: ${error.message}`);
+          return json({ error: 'Invalid payload' }, 400);
+        }
+        throw error;
+      }
+
+      const eventType = event.event_type;
+      const tenant = options.resolveTenant ? await options.resolveTenant({ secretId, event }) : null;
+      console.log(
+        `Processing webhook: ${eventType} (delivery: ${deliveryId}${tenant?.orgId ? `, org: ${tenant.orgId}` : ''})`
+      );
+
+      // Deliveries are keyed on their delivery ID: a redelivery of an event that
+      // was already processed is acknowledged without running handlers again
+      const eventId = deliveryId !== 'unknown' ? deliveryId : null;
+
+      // The delivery ID is not signed, so a captured delivery could be re-sent
+      // under a new one; the checksum of the signed content identifies it
+      const signedChecksum = signatureChecked ? await signedContentChecksum(rawBody, req.headers) : null;
+      if (signedChecksum) {
+        const { data: original } = await supabase
+          .from('doclayer_webhook_events')
+          .select('event_id, status')
+          .eq('signed_checksum', signedChecksum)
+          .maybeSingle();
+
+        if (original && (eventId === null || original.event_id !== eventId)) {
+          console.warn(`Ignoring replayed delivery ${deliveryId} of ${original.event_id ?? 'an earlier delivery'}`);
+          return replayedDelivery(eventType, deliveryId, original.status);
+        }
+      }
+
+      let previousAttempts = 0;
+      if (eventId) {
+        const { data: existing } = await supabase
+          .from('doclayer_webhook_events')
+          .select('id, processed, status, attempt_count')
+          .eq('event_id', eventId)
+          .maybeSingle();
+
+        // Dead-lettered events are not retried; they need manual attention
+        if (existing?.processed || existing?.status === 'dead_letter') {
+          console.log(`Skipping already ${existing.status} delivery: ${deliveryId}`);
+          return json({
+            success: true,
+            duplicate: true,
+            status: existing.status,
+            event_type: eventType,
+            delivery_id: deliveryId,
+          });
+        }
+        previousAttempts = existing?.attempt_count ?? 0;
+      }
+
+      // Log the webhook event (reusing the row of an earlier, unfinished attempt)
+      const attemptCount = previousAttempts + 1;
+      const eventRecord = {
+        event_type: eventType,
+        event_id: eventId,
+        payload: event as WebhookPayload,
+        signature_valid: signatureChecked,
+        secret_id: secretId,
+        signed_checksum: signedChecksum,
+        delivered_at: deliveredAt(req.headers),
+        attempt_count: attemptCount,
+        last_attempt_at: new Date().toISOString(),
+        // Only set for tenant deliveries, so the column stays optional
+        ...(tenant && { org_id: tenant.orgId }),
+      };
+      const { data: eventRow, error: logError } = eventId
+        ? await supabase
+            .from('doclayer_webhook_events')
+            .upsert(eventRecord, { onConflict: 'event_id' })
+            .select('id')
+            .single()
+        : await supabase.from('doclayer_webhook_events').insert(eventRecord).select('id').single();
+
+      if (logError) {
+        // A concurrent copy of the same signed delivery was logged first
+        if (logError.code === '23505' && signedChecksum) {
+          return replayedDelivery(eventType, deliveryId, 'pending');
+        }
+        console.error('Failed to log webhook event:', logError);
+      }
+
+      // Failures are recorded on the event row; transient ones return 500 so
+      // Doclayer redelivers, until the event is dead-lettered
+      let stale = false;
+      try {
+        const result = await dispatchWebhookEvent(supabase, event, {
+          apiKey: tenant?.apiKey ?? options.apiKey,
+          baseUrl: tenant?.baseUrl ?? options.baseUrl,
+          orgId: tenant?.orgId,
+          syncChunks: options.syncChunks,
+          storeEmbeddings: options.storeEmbeddings,
+          embed: options.embed,
+          handlers: options.handlers,
+          on: options.on,
+          middleware: options.middleware,
+          deliveryId: eventId ?? undefined,
+        });
+        stale = result.stale;
+        console.log(
+          !result.handled
+            ? `Unhandled event type: ${eventType}`
+            : stale
+              ? `Stale ${eventType} recorded but not applied (delivery: ${deliveryId})`
+              : `Processed ${eventType}: ${result.changes.length} row change(s)`
+        );
+      } catch (handlerError) {
+        const outcome = isPermanentWebhookError(handlerError) || attemptCount >= maxAttempts ? 'dead_letter' : 'failed';
+        console.error(
+          `Webhook handler failed (attempt ${attemptCount}/${maxAttempts}, ${outcome}):`,
+          handlerError
+        );
+        await recordHandlerFailure(supabase, eventRow?.id, handlerError, outcome);
+
+        return json(
+          {
+            success: false,
+            status: outcome,
+            event_type: eventType,
+            delivery_id: deliveryId,
+            message: describeWebhookError(handlerError).message,
+          },
+          // 200 stops redelivery of events that can never succeed
+          outcome === 'dead_letter' ? 200 : 500
+        );
+      }
+
+      // Mark webhook as processed; stale events stay in the log but were not applied
+      await supabase
+        .from('doclayer_webhook_events')
+        .update({
+          processed: true,
+          processed_at: new Date().toISOString(),
+          status: stale ? 'stale' : 'processed',
+          error_message: null,
+          error_stack: null,
+        })
+        .eq('id', eventRow?.id);
+
+      return json({ success: true, stale, event_type: eventType, delivery_id: deliveryId });
+    } catch (error) {
+      console.error('Webhook processing error:', error);
+      return json(
+        {
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+        500
+      );
+    }
+  };
+}
+
+// ============================================================================
+// Event Log Helpers
+// ============================================================================
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function replayedDelivery(eventType: string, deliveryId: string, status: string): Response {
+  return json({ success: true, duplicate: true, status, event_type: eventType, delivery_id: deliveryId });
+}
+
+// SHA-256 of what the signature covers: `<timestamp>.<body>`, or the body
+// when the delivery has no timestamp
+async function signedContentChecksum(rawBody: string, headers: Headers): Promise<string> {
+  const timestamp = headers.get('x-webhook-timestamp');
+  const signed = new TextEncoder().encode(timestamp ? `${timestamp}.${rawBody}` : rawBody);
+  const digest = await crypto.subtle.digest('SHA-256', signed);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Signed delivery time from the x-webhook-timestamp header, if present
+function deliveredAt(headers: Headers): string | null {
+  const timestamp = headers.get('x-webhook-timestamp');
+  if (!timestamp) return null;
+
+  const seconds = Number(timestamp);
+  const date = Number.isFinite(seconds) ? new Date(seconds * 1000) : new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Keep an audit trail of deliveries that failed verification
+async function recordRejectedDelivery(
+  supabase: SupabaseClient,
+  rawBody: string,
+  headers: Headers,
+  deliveryId: string,
+  reason: string
+): Promise<void> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    payload = { raw: rawBody.slice(0, 10_000) };
+  }
+
+  // event_id stays NULL: an unverified delivery must not claim the delivery ID
+  // of the genuine event
+  const { error } = await supabase.from('doclayer_webhook_events').insert({
+    event_type: headers.get('x-webhook-event') || 'unknown',
+    event_id: null,
+    payload,
+    signature_valid: false,
+    status: 'rejected',
+    error_message: `${reason} (delivery: ${deliveryId})`,
+    delivered_at: deliveredAt(headers),
+  });
+
+  if (error) {
+    console.error('Failed to record rejected delivery:', error);
+  }
+}
+
+// Record a handler failure on the event row
+async function recordHandlerFailure(
+  supabase: SupabaseClient,
+  eventRowId: string | undefined,
+  handlerError: unknown,
+  outcome: FailureOutcome
+): Promise<void> {
+  if (!eventRowId) return;
+
+  const { message, stack } = describeWebhookError(handlerError);
+  const { error } = await supabase
+    .from('doclayer_webhook_events')
+    .update({
+      status: outcome,
+      error_message: message,
+      error_stack: stack,
+      dead_lettered_at: outcome === 'dead_letter' ? new Date().toISOString() : null,
+    })
+    .eq('id', eventRowId);
+
+  if (error) {
+    console.error('Failed to record webhook failure:', error);
+  }
+}
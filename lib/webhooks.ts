@@ -0,0 +1,480 @@
+/**
+ * Doclayer webhook verification and event parsing
+ *
+ * Runtime-agnostic helpers (Web Crypto only) for receiving Doclayer webhooks
+ * in Supabase Edge Functions, Next.js route handlers, Express, or any other
+ * Deno/Node.js environment.
+ */
+
+// ============================================================================
+// Event Data Types
+// ============================================================================
+
+export interface DocumentProcessingStarted {
+  job_id: string;
+  checksum: string;
+  timestamp: string;
+}
+
+export interface DocumentProcessingCompleted {
+  job_id: string;
+  document_id: string;
+  insights_count: number;
+  confidence_metrics: Record<string, number>;
+  agent_analysis_enabled?: boolean;
+  timestamp: string;
+}
+
+export interface DocumentProcessingFailed {
+  job_id: string;
+  document_id: string;
+  error: string;
+  error_type: string;
+  timestamp: string;
+}
+
+// Batch event types
+export interface BatchStarted {
+  batch_id: string;
+  total_documents: number;
+  project_id?: string;
+  timestamp: string;
+}
+
+export interface BatchProgress {
+  batch_id: string;
+  completed: number;
+  total: number;
+  failed: number;
+  timestamp: string;
+}
+
+export interface BatchCompleted {
+  batch_id: string;
+  total_documents: number;
+  successful: number;
+  failed: number;
+  duration_seconds: number;
+  timestamp: string;
+}
+
+export interface BatchFailed {
+  batch_id: string;
+  error: string;
+  error_type: string;
+  completed: number;
+  total: number;
+  timestamp: string;
+}
+
+// Billing event types
+export interface BillingCreditsLow {
+  current_balance: number;
+  threshold: number;
+  currency: string;
+  timestamp: string;
+}
+
+export interface BillingCreditsExhausted {
+  current_balance: number;
+  currency: string;
+  timestamp: string;
+}
+
+export interface BillingUsageReport {
+  period_start: string;
+  period_end: string;
+  total_documents: number;
+  total_pages: number;
+  total_cost: number;
+  currency: string;
+  timestamp: string;
+}
+
+// Workflow event types
+export interface WorkflowStarted {
+  workflow_id: string;
+  workflow_type: string;
+  document_id?: string;
+  timestamp: string;
+}
+
+export interface WorkflowCompleted {
+  workflow_id: string;
+  workflow_type: string;
+  document_id?: string;
+  result?: Record<string, unknown>;
+  duration_seconds: number;
+  timestamp: string;
+}
+
+export interface WorkflowFailed {
+  workflow_id: string;
+  workflow_type: string;
+  document_id?: string;
+  error: string;
+  error_type: string;
+  timestamp: string;
+}
+
+export interface TestPing {
+  message?: string;
+  timestamp?: string;
+}
+
+// ============================================================================
+// Event Envelope
+// ============================================================================
+
+/**
+ * Raw webhook body as delivered by Doclayer
+ */
+export interface WebhookPayload {
+  event_type: string;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Maps every event type to the shape of its `data` field
+ */
+export interface WebhookEventDataMap {
+  'document.processing.started': DocumentProcessingStarted;
+  'document.processing.completed': DocumentProcessingCompleted;
+  'document.processing.failed': DocumentProcessingFailed;
+  'batch.started': BatchStarted;
+  'batch.progress': BatchProgress;
+  'batch.completed': BatchCompleted;
+  'batch.failed': BatchFailed;
+  'billing.credits.low': BillingCreditsLow;
+  'billing.credits.exhausted': BillingCreditsExhausted;
+  'billing.usage.report': BillingUsageReport;
+  'workflow.started': WorkflowStarted;
+  'workflow.completed': WorkflowCompleted;
+  'workflow.failed': WorkflowFailed;
+  'test.ping': TestPing;
+}
+
+export type DoclayerWebhookEventType = keyof WebhookEventDataMap;
+
+/**
+ * Discriminated union of all webhook events, narrowed by `event_type`
+ *
+ * @example
+ * ```ts
+ * if (event.event_type === 'document.processing.completed') {
+ *   console.log(event.data.document_id);
+ * }
+ * ```
+ */
+export type DoclayerWebhookEvent = {
+  [K in DoclayerWebhookEventType]: {
+    event_type: K;
+    timestamp: string;
+    data: WebhookEventDataMap[K];
+  };
+}[DoclayerWebhookEventType];
+
+export const WEBHOOK_EVENT_TYPES: readonly DoclayerWebhookEventType[] = [
+  'document.processing.started',
+  'document.processing.completed',
+  'document.processing.failed',
+  'batch.started',
+  'batch.progress',
+  'batch.completed',
+  'batch.failed',
+  'billing.credits.low',
+  'billing.credits.exhausted',
+  'billing.usage.report',
+  'workflow.started',
+  'workflow.completed',
+  'workflow.failed',
+  'test.ping',
+];
+
+export interface WebhookVerifyOptions {
+  /**
+   * Maximum allowed difference in seconds between the signed `x-webhook-timestamp`
+   * header and the current time (default: 300, 0 disables the check)
+   */
+  toleranceSeconds?: number;
+  /**
+   * Reject deliveries that carry no `x-webhook-timestamp` header (default:
+   * true). Without a signed timestamp a captured delivery stays valid forever;
+   * only set false for senders that do not sign one.
+   */
+  requireTimestamp?: boolean;
+  /** Current time in milliseconds since the epoch (default: `Date.now()`) */
+  now?: number;
+}
+
+/**
+ * A signing secret, optionally retired after `expiresAt` (used during rotation)
+ */
+export interface WebhookSecret {
+  secret: string;
+  /** Label recorded when this secret verifies a delivery, e.g. `current` or `previous` */
+  id?: string;
+  /** Stop accepting this secret after this time */
+  expiresAt?: Date | string | number | null;
+}
+
+export type WebhookVerificationResult =
+  | { valid: true; secretId?: string }
+  | { valid: false; reason: WebhookVerificationFailure };
+
+/**
+ * Headers as exposed by the Fetch API, Node.js `IncomingMessage`, or a plain object
+ */
+export type WebhookHeaders = Headers | Record<string, string | string[] | undefined>;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type WebhookVerificationFailure =
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'missing_timestamp'
+  | 'timestamp_out_of_tolerance'
+  | 'invalid_payload';
+
+export class WebhookVerificationError extends Error {
+  reason: WebhookVerificationFailure;
+
+  constructor(message: string, reason: WebhookVerificationFailure) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+    this.reason = reason;
+  }
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Read a header case-insensitively from any supported header container
+ */
+export function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+
+  const lowerName = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers as Record<string, string | string[] | undefined>)) {
+    if (key.toLowerCase() === lowerName) {
+      return Array.isArray(value) ? value[0] : value;
+    }
+  }
+  return undefined;
+}
+
+async function computeHmac(payload: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const signatureBuffer = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+
+  return Array.from(new Uint8Array(signatureBuffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Compare two strings in time independent of where they first differ, e.g.
+ * for shared-secret checks
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+/**
+ * Parse `x-webhook-timestamp` (Unix seconds or ISO 8601) into milliseconds
+ */
+function parseTimestamp(value: string): number | undefined {
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : date;
+}
+
+/**
+ * Check a `sha256=<hex>` HMAC signature against the raw request body
+ */
+export async function verifySignature(
+  payload: string,
+  signature: string,
+  secret: string
+): Promise<boolean> {
+  if (!signature || !signature.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expectedSignature = signature.replace('sha256=', '').toLowerCase();
+  const computedSignature = await computeHmac(payload, secret);
+
+  return timingSafeEqual(computedSignature, expectedSignature);
+}
+
+/**
+ * Normalize the accepted secret inputs into a list of secrets still in effect
+ */
+function activeSecrets(secrets: string | WebhookSecret[], now: number): WebhookSecret[] {
+  const list = typeof secrets === 'string' ? [{ secret: secrets, id: 'default' }] : secrets;
+  return list.filter((entry) => {
+    if (!entry.secret) return false;
+    if (entry.expiresAt === undefined || entry.expiresAt === null) return true;
+    const expiresAt = new Date(entry.expiresAt).getTime();
+    return Number.isNaN(expiresAt) || expiresAt > now;
+  });
+}
+
+/**
+ * Check signature and freshness of a delivery against one or more secrets.
+ *
+ * When an `x-webhook-timestamp` header is present the signature covers
+ * `<timestamp>.<body>`, so the timestamp cannot be altered without
+ * invalidating the signature. Expired secrets are skipped.
+ */
+export async function verifyDelivery(
+  rawBody: string,
+  headers: WebhookHeaders,
+  secrets: string | WebhookSecret[],
+  options?: WebhookVerifyOptions
+): Promise<WebhookVerificationResult> {
+  const signature = getHeader(headers, 'x-webhook-signature');
+  if (!signature) {
+    return { valid: false, reason: 'missing_signature' };
+  }
+
+  const timestamp = getHeader(headers, 'x-webhook-timestamp');
+  if (!timestamp && (options?.requireTimestamp ?? true)) {
+    return { valid: false, reason: 'missing_timestamp' };
+  }
+
+  const now = options?.now ?? Date.now();
+  const signedPayload = timestamp ? `${timestamp}.${rawBody}` : rawBody;
+
+  let matched: WebhookSecret | undefined;
+  for (const candidate of activeSecrets(secrets, now)) {
+    if (await verifySignature(signedPayload, signature, candidate.secret)) {
+      matched = candidate;
+      break;
+    }
+  }
+
+  if (!matched) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  const toleranceSeconds = options?.toleranceSeconds ?? 300;
+  if (timestamp && toleranceSeconds > 0) {
+    const sentAt = parseTimestamp(timestamp);
+    if (sentAt === undefined || Math.abs(now - sentAt) > toleranceSeconds * 1000) {
+      return { valid: false, reason: 'timestamp_out_of_tolerance' };
+    }
+  }
+
+  return { valid: true, secretId: matched.id };
+}
+
+const FAILURE_MESSAGES: Record<WebhookVerificationFailure, string> = {
+  missing_signature: 'Missing x-webhook-signature header',
+  invalid_signature: 'Invalid webhook signature',
+  missing_timestamp: 'Missing x-webhook-timestamp header',
+  timestamp_out_of_tolerance: 'Webhook timestamp is outside the tolerance window',
+  invalid_payload: 'Invalid webhook payload',
+};
+
+/**
+ * Verify the signature (and signed timestamp, if present) of a delivery
+ */
+export async function verifyWebhook(
+  rawBody: string,
+  headers: WebhookHeaders,
+  secret: string | WebhookSecret[],
+  options?: WebhookVerifyOptions
+): Promise<boolean> {
+  return (await verifyDelivery(rawBody, headers, secret, options)).valid;
+}
+
+/**
+ * Parse a raw webhook body into a typed event without verifying it.
+ * The `x-webhook-event` header takes precedence over the body's `event_type`.
+ */
+export function parseWebhookEvent(rawBody: string, headers?: WebhookHeaders): DoclayerWebhookEvent {
+  let payload: WebhookPayload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    throw new WebhookVerificationError('Webhook body is not valid JSON', 'invalid_payload');
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    throw new WebhookVerificationError('Webhook body must be a JSON object', 'invalid_payload');
+  }
+
+  const eventType = (headers && getHeader(headers, 'x-webhook-event')) || payload.event_type;
+  if (!eventType) {
+    throw new WebhookVerificationError('Webhook event type is missing', 'invalid_payload');
+  }
+
+  return {
+    ...payload,
+    event_type: eventType,
+    data: payload.data ?? {},
+  } as DoclayerWebhookEvent;
+}
+
+/**
+ * Verify and parse a webhook delivery.
+ *
+ * Pass the raw, unparsed request body - re-serializing parsed JSON changes
+ * the bytes and breaks the signature. During secret rotation pass every
+ * active secret; the delivery is accepted if any of them matches.
+ *
+ * @example
+ * ```ts
+ * // Next.js route handler
+ * export async function POST(req: Request) {
+ *   const event = await constructEvent(await req.text(), req.headers, process.env.DOCLAYER_WEBHOOK_SECRET!);
+ *   switch (event.event_type) {
+ *     case 'document.processing.completed':
+ *       await onCompleted(event.data.document_id);
+ *       break;
+ *   }
+ *   return Response.json({ received: true });
+ * }
+ * ```
+ */
+export async function constructEvent(
+  rawBody: string,
+  headers: WebhookHeaders,
+  secret: string | WebhookSecret[],
+  options?: WebhookVerifyOptions
+): Promise<DoclayerWebhookEvent> {
+  const result = await verifyDelivery(rawBody, headers, secret, options);
+  if (!result.valid) {
+    throw new WebhookVerificationError(FAILURE_MESSAGES[result.reason], result.reason);
+  }
+
+  return parseWebhookEvent(rawBody, headers);
+}
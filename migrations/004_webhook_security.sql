@@ -0,0 +1,22 @@
+-- Webhook delivery verification and replay protection
+-- Records the signed delivery time and speeds up delivery-id lookups
+
+-- ============================================================================
+-- Webhook Events
+-- ============================================================================
+
+ALTER TABLE doclayer_webhook_events
+    ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+
+-- Replay checks look up verified deliveries by their x-webhook-delivery id
+CREATE INDEX IF NOT EXISTS idx_doclayer_webhook_events_event_id
+    ON doclayer_webhook_events(event_id)
+    WHERE signature_valid;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_webhook_events.event_id IS 'Delivery ID from the x-webhook-delivery header';
+COMMENT ON COLUMN doclayer_webhook_events.signature_valid IS 'TRUE when the HMAC signature and timestamp were verified; FALSE for rejected or unverified deliveries';
+COMMENT ON COLUMN doclayer_webhook_events.delivered_at IS 'Signed delivery time from the x-webhook-timestamp header';
@@ -0,0 +1,15 @@
+-- Webhook secret rotation support
+-- Records which signing secret verified each delivery
+
+-- ============================================================================
+-- Webhook Events
+-- ============================================================================
+
+ALTER TABLE doclayer_webhook_events
+    ADD COLUMN IF NOT EXISTS secret_id TEXT;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_webhook_events.secret_id IS 'Which configured secret verified the delivery (current or previous), NULL if unverified';
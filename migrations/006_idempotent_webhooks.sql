@@ -0,0 +1,80 @@
+-- Idempotent webhook processing
+-- Makes the delivery ID unique so redeliveries reuse their original event row,
+-- and replaces a document's extractions atomically
+
+-- ============================================================================
+-- Unique Delivery IDs
+-- ============================================================================
+
+-- Placeholder IDs from deliveries without an x-webhook-delivery header
+UPDATE doclayer_webhook_events SET event_id = NULL WHERE event_id = 'unknown';
+
+-- Keep one row per delivery (preferring processed, verified, earliest);
+-- duplicates stay in the log with their event_id cleared
+WITH ranked AS (
+    SELECT
+        id,
+        ROW_NUMBER() OVER (
+            PARTITION BY event_id
+            ORDER BY processed DESC NULLS LAST, signature_valid DESC NULLS LAST, received_at ASC
+        ) AS rn
+    FROM doclayer_webhook_events
+    WHERE event_id IS NOT NULL
+)
+UPDATE doclayer_webhook_events e
+SET event_id = NULL
+FROM ranked r
+WHERE e.id = r.id AND r.rn > 1;
+
+ALTER TABLE doclayer_webhook_events
+    DROP CONSTRAINT IF EXISTS doclayer_webhook_events_event_id_key;
+ALTER TABLE doclayer_webhook_events
+    ADD CONSTRAINT doclayer_webhook_events_event_id_key UNIQUE (event_id);
+
+-- Superseded by the unique constraint's index
+DROP INDEX IF EXISTS idx_doclayer_webhook_events_event_id;
+
+-- ============================================================================
+-- Replace Extractions
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION replace_doclayer_extractions(
+    p_document_id UUID,
+    p_extractions JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+    inserted INTEGER;
+BEGIN
+    DELETE FROM doclayer_extractions WHERE document_id = p_document_id;
+
+    INSERT INTO doclayer_extractions (
+        document_id, extraction_type, extraction_key, content,
+        confidence, page_number, bounding_box, source_text
+    )
+    SELECT
+        p_document_id,
+        COALESCE(ext->>'extraction_type', 'unknown'),
+        ext->>'extraction_key',
+        COALESCE(ext->'content', 'null'::jsonb),
+        (ext->>'confidence')::NUMERIC,
+        (ext->>'page_number')::INTEGER,
+        ext->'bounding_box',
+        ext->>'source_text'
+    FROM jsonb_array_elements(COALESCE(p_extractions, '[]'::jsonb)) AS ext;
+
+    GET DIAGNOSTICS inserted = ROW_COUNT;
+    RETURN inserted;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the webhook handler (service role) may rewrite extractions
+REVOKE EXECUTE ON FUNCTION replace_doclayer_extractions(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION replace_doclayer_extractions(UUID, JSONB) TO service_role;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON FUNCTION replace_doclayer_extractions(UUID, JSONB) IS
+    'Atomically replaces all extractions of a document; safe to call repeatedly for the same delivery';
@@ -0,0 +1,46 @@
+-- Webhook failure recording and dead-lettering
+-- Tracks handler failures per delivery so transient errors are retried by
+-- Doclayer and events that keep failing are parked for inspection
+
+-- ============================================================================
+-- Webhook Events
+-- ============================================================================
+
+ALTER TABLE doclayer_webhook_events
+    ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'pending',
+    ADD COLUMN IF NOT EXISTS attempt_count INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS error_stack TEXT,
+    ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+
+-- Backfill existing rows
+UPDATE doclayer_webhook_events
+SET status = CASE
+        WHEN processed THEN 'processed'
+        WHEN signature_valid = FALSE THEN 'rejected'
+        WHEN error_message IS NOT NULL THEN 'failed'
+        ELSE 'pending'
+    END,
+    attempt_count = CASE WHEN attempt_count = 0 THEN 1 ELSE attempt_count END
+WHERE status IS NULL OR status = 'pending';
+
+ALTER TABLE doclayer_webhook_events
+    DROP CONSTRAINT IF EXISTS doclayer_webhook_events_status_check;
+
+ALTER TABLE doclayer_webhook_events
+    ADD CONSTRAINT doclayer_webhook_events_status_check
+    CHECK (status IN ('pending', 'processed', 'failed', 'dead_letter', 'rejected'));
+
+CREATE INDEX IF NOT EXISTS idx_doclayer_webhook_events_status
+    ON doclayer_webhook_events(status)
+    WHERE status IN ('failed', 'dead_letter');
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_webhook_events.status IS 'Delivery state: pending, processed, failed (will be redelivered), dead_letter (gave up) or rejected (failed verification)';
+COMMENT ON COLUMN doclayer_webhook_events.attempt_count IS 'Number of deliveries of this event that reached the handlers';
+COMMENT ON COLUMN doclayer_webhook_events.last_attempt_at IS 'When the handlers last ran for this event';
+COMMENT ON COLUMN doclayer_webhook_events.error_stack IS 'Stack trace (or Postgres details/hint) of the last handler failure';
+COMMENT ON COLUMN doclayer_webhook_events.dead_lettered_at IS 'When the event was dead-lettered after repeated or permanent failures';
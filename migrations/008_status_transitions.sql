@@ -0,0 +1,97 @@
+-- Monotonic status transitions
+-- Webhook deliveries can arrive out of order; a late event must never move a
+-- document, batch or workflow back to an earlier status or overwrite it with
+-- older data. Stale events stay in doclayer_webhook_events but are not applied.
+--
+-- Lifecycle: pending -> processing (running for workflows) -> completed | failed | cancelled
+
+-- ============================================================================
+-- Event Timestamps
+-- ============================================================================
+
+ALTER TABLE doclayer_documents
+    ADD COLUMN IF NOT EXISTS last_event_at TIMESTAMPTZ;
+
+ALTER TABLE doclayer_batches
+    ADD COLUMN IF NOT EXISTS last_event_at TIMESTAMPTZ;
+
+ALTER TABLE doclayer_workflows
+    ADD COLUMN IF NOT EXISTS last_event_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- Transition Guard
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION doclayer_status_rank(p_status TEXT)
+RETURNS INTEGER AS $$
+    SELECT CASE p_status
+        WHEN 'pending' THEN 0
+        WHEN 'processing' THEN 1
+        WHEN 'running' THEN 1
+        WHEN 'completed' THEN 2
+        WHEN 'failed' THEN 2
+        WHEN 'cancelled' THEN 2
+        ELSE 0
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Skips (rather than rejects) stale event updates, so concurrent deliveries
+-- cannot regress a row even if they pass the check in the webhook handlers
+CREATE OR REPLACE FUNCTION enforce_doclayer_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Only updates that record a new event time come from webhook events;
+    -- redeliveries of the last applied event and manual edits pass through
+    IF NEW.last_event_at IS NOT DISTINCT FROM OLD.last_event_at THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.last_event_at < OLD.last_event_at
+        OR doclayer_status_rank(NEW.status) < doclayer_status_rank(OLD.status)
+        OR doclayer_status_rank(OLD.status) = 2
+    THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_doclayer_documents_status_transition ON doclayer_documents;
+CREATE TRIGGER trigger_doclayer_documents_status_transition
+    BEFORE UPDATE ON doclayer_documents
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_doclayer_status_transition();
+
+DROP TRIGGER IF EXISTS trigger_doclayer_batches_status_transition ON doclayer_batches;
+CREATE TRIGGER trigger_doclayer_batches_status_transition
+    BEFORE UPDATE ON doclayer_batches
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_doclayer_status_transition();
+
+DROP TRIGGER IF EXISTS trigger_doclayer_workflows_status_transition ON doclayer_workflows;
+CREATE TRIGGER trigger_doclayer_workflows_status_transition
+    BEFORE UPDATE ON doclayer_workflows
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_doclayer_status_transition();
+
+-- ============================================================================
+-- Webhook Events
+-- ============================================================================
+
+ALTER TABLE doclayer_webhook_events
+    DROP CONSTRAINT IF EXISTS doclayer_webhook_events_status_check;
+
+ALTER TABLE doclayer_webhook_events
+    ADD CONSTRAINT doclayer_webhook_events_status_check
+    CHECK (status IN ('pending', 'processed', 'stale', 'failed', 'dead_letter', 'rejected'));
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_documents.last_event_at IS 'Time of the latest webhook event applied to the row';
+COMMENT ON COLUMN doclayer_batches.last_event_at IS 'Time of the latest webhook event applied to the row';
+COMMENT ON COLUMN doclayer_workflows.last_event_at IS 'Time of the latest webhook event applied to the row';
+COMMENT ON FUNCTION enforce_doclayer_status_transition() IS 'Skips webhook updates that are older than the last applied event or would move the status backwards';
+COMMENT ON COLUMN doclayer_webhook_events.status IS 'Delivery state: pending, processed, stale (older than the row it targets, not applied), failed (will be redelivered), dead_letter (gave up) or rejected (failed verification)';
@@ -0,0 +1,59 @@
+-- Document chunks synced from Doclayer
+-- Completed documents have their chunks stored locally so RAG features can
+-- read them without calling the Doclayer API
+
+-- ============================================================================
+-- Chunks Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS doclayer_chunks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_id UUID NOT NULL REFERENCES doclayer_documents(id) ON DELETE CASCADE,
+    doclayer_chunk_id TEXT,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    page_number INTEGER,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (document_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_doclayer_chunks_document ON doclayer_chunks(document_id);
+CREATE INDEX IF NOT EXISTS idx_doclayer_chunks_doclayer_id ON doclayer_chunks(doclayer_chunk_id);
+
+DROP TRIGGER IF EXISTS trigger_doclayer_chunks_updated_at ON doclayer_chunks;
+CREATE TRIGGER trigger_doclayer_chunks_updated_at
+    BEFORE UPDATE ON doclayer_chunks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_doclayer_updated_at();
+
+-- ============================================================================
+-- Enable Realtime
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE doclayer_chunks;
+
+ALTER TABLE doclayer_chunks REPLICA IDENTITY FULL;
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE doclayer_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to chunks"
+    ON doclayer_chunks FOR ALL TO service_role
+    USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can view chunks"
+    ON doclayer_chunks FOR SELECT TO authenticated
+    USING (true);
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON TABLE doclayer_chunks IS 'Document chunks synced from Doclayer when processing completes';
+COMMENT ON COLUMN doclayer_chunks.chunk_index IS 'Position of the chunk within the document';
+COMMENT ON COLUMN doclayer_chunks.doclayer_chunk_id IS 'Chunk ID in Doclayer';
@@ -0,0 +1,70 @@
+-- Local vector search over synced chunks (optional)
+-- Mirrors chunk embeddings into pgvector so semantic queries can run in
+-- Postgres instead of calling Doclayer's vector search.
+--
+-- Requires migrations/009_doclayer_chunks.sql. The column is sized for
+-- 1536-dimensional embeddings; change every vector(1536) below if your
+-- embedding model uses a different dimension.
+
+-- ============================================================================
+-- Embeddings
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE doclayer_chunks
+    ADD COLUMN IF NOT EXISTS embedding extensions.vector(1536);
+
+CREATE INDEX IF NOT EXISTS idx_doclayer_chunks_embedding
+    ON doclayer_chunks
+    USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- ============================================================================
+-- Search Function
+-- ============================================================================
+
+-- Chunks most similar to a query embedding (cosine similarity), optionally
+-- limited to one Doclayer project. Runs with the caller's permissions, so
+-- row level security on doclayer_chunks applies.
+CREATE OR REPLACE FUNCTION match_doclayer_chunks(
+    query_embedding extensions.vector(1536),
+    filter_project_id TEXT DEFAULT NULL,
+    match_threshold FLOAT DEFAULT 0.5,
+    match_count INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    document_id UUID,
+    doclayer_chunk_id TEXT,
+    doclayer_document_id TEXT,
+    content TEXT,
+    page_number INTEGER,
+    chunk_index INTEGER,
+    metadata JSONB,
+    similarity FLOAT
+) AS $$
+    SELECT
+        c.id,
+        c.document_id,
+        c.doclayer_chunk_id,
+        d.doclayer_document_id,
+        c.content,
+        c.page_number,
+        c.chunk_index,
+        c.metadata,
+        1 - (c.embedding OPERATOR(extensions.<=>) query_embedding) AS similarity
+    FROM doclayer_chunks c
+    JOIN doclayer_documents d ON d.id = c.document_id
+    WHERE c.embedding IS NOT NULL
+        AND (filter_project_id IS NULL OR d.project_id = filter_project_id)
+        AND 1 - (c.embedding OPERATOR(extensions.<=>) query_embedding) >= match_threshold
+    ORDER BY c.embedding OPERATOR(extensions.<=>) query_embedding
+    LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_chunks.embedding IS 'Chunk embedding from Doclayer or the configured embedding function';
+COMMENT ON FUNCTION match_doclayer_chunks(extensions.vector, TEXT, FLOAT, INTEGER) IS 'Cosine-similarity search over synced chunk embeddings';
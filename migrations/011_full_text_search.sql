@@ -0,0 +1,120 @@
+-- Full-text search over synced chunks and extractions
+-- Adds tsvector columns with GIN indexes and a keyword search function used
+-- by searchHybrid (lib/search.ts). Uses the 'english' text search
+-- configuration; change it in every to_tsvector/websearch_to_tsquery call
+-- below for other languages.
+
+-- ============================================================================
+-- Search Vectors
+-- ============================================================================
+
+ALTER TABLE doclayer_chunks
+    ADD COLUMN IF NOT EXISTS content_tsv TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+ALTER TABLE doclayer_extractions
+    ADD COLUMN IF NOT EXISTS source_text_tsv TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('english', coalesce(source_text, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_doclayer_chunks_content_tsv
+    ON doclayer_chunks USING gin(content_tsv);
+
+CREATE INDEX IF NOT EXISTS idx_doclayer_extractions_source_text_tsv
+    ON doclayer_extractions USING gin(source_text_tsv);
+
+-- ============================================================================
+-- Search Function
+-- ============================================================================
+
+-- Keyword search (web search syntax: quotes, OR, -exclusion) over chunk
+-- content and extraction source text, ranked with ts_rank_cd and returned
+-- with <mark>-highlighted snippets. Runs with the caller's permissions.
+CREATE OR REPLACE FUNCTION search_doclayer_text(
+    query TEXT,
+    filter_project_id TEXT DEFAULT NULL,
+    match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    source TEXT,
+    id UUID,
+    document_id UUID,
+    doclayer_document_id TEXT,
+    doclayer_chunk_id TEXT,
+    content TEXT,
+    snippet TEXT,
+    rank REAL,
+    page_number INTEGER,
+    metadata JSONB
+) AS $$
+    WITH q AS (
+        SELECT websearch_to_tsquery('english', query) AS tsq
+    ),
+    matches AS (
+        SELECT
+            'chunk'::TEXT AS source,
+            c.id,
+            c.document_id,
+            d.doclayer_document_id,
+            c.doclayer_chunk_id,
+            c.content,
+            ts_rank_cd(c.content_tsv, q.tsq) AS rank,
+            c.page_number,
+            c.metadata
+        FROM doclayer_chunks c
+        JOIN doclayer_documents d ON d.id = c.document_id
+        CROSS JOIN q
+        WHERE c.content_tsv @@ q.tsq
+            AND (filter_project_id IS NULL OR d.project_id = filter_project_id)
+
+        UNION ALL
+
+        SELECT
+            'extraction'::TEXT,
+            e.id,
+            e.document_id,
+            d.doclayer_document_id,
+            NULL,
+            e.source_text,
+            ts_rank_cd(e.source_text_tsv, q.tsq),
+            e.page_number,
+            jsonb_build_object(
+                'extraction_type', e.extraction_type,
+                'extraction_key', e.extraction_key,
+                'confidence', e.confidence
+            )
+        FROM doclayer_extractions e
+        JOIN doclayer_documents d ON d.id = e.document_id
+        CROSS JOIN q
+        WHERE e.source_text_tsv @@ q.tsq
+            AND (filter_project_id IS NULL OR d.project_id = filter_project_id)
+    ),
+    top AS (
+        SELECT * FROM matches ORDER BY rank DESC LIMIT match_count
+    )
+    -- Highlight only the rows returned; ts_headline is expensive
+    SELECT
+        top.source,
+        top.id,
+        top.document_id,
+        top.doclayer_document_id,
+        top.doclayer_chunk_id,
+        top.content,
+        ts_headline(
+            'english', top.content, q.tsq,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2'
+        ),
+        top.rank,
+        top.page_number,
+        top.metadata
+    FROM top
+    CROSS JOIN q
+    ORDER BY top.rank DESC;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_chunks.content_tsv IS 'Full-text search vector of content';
+COMMENT ON COLUMN doclayer_extractions.source_text_tsv IS 'Full-text search vector of source_text';
+COMMENT ON FUNCTION search_doclayer_text(TEXT, TEXT, INTEGER) IS 'Ranked keyword search over chunk content and extraction source text with highlighted snippets';
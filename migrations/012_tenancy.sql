@@ -0,0 +1,224 @@
+-- Multi-tenant ownership
+-- Replaces the "every authenticated user sees everything" policies from
+-- 002/003/009 with per-user and per-organization access. Documents, batches
+-- and workflows belong to an owner (the uploading user) and optionally an
+-- organization; extractions, workflows and chunks follow their document.
+--
+-- Rows synced before this migration have no owner and are only visible to the
+-- service role until owner_id/org_id are backfilled. Webhook events span all
+-- tenants, so authenticated users can no longer read doclayer_webhook_events.
+
+-- ============================================================================
+-- Organizations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS doclayer_organizations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS doclayer_org_members (
+    org_id UUID NOT NULL REFERENCES doclayer_organizations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (org_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_doclayer_org_members_user ON doclayer_org_members(user_id);
+
+-- ============================================================================
+-- Ownership Columns
+-- ============================================================================
+
+ALTER TABLE doclayer_documents
+    ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES doclayer_organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE doclayer_extractions
+    ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES doclayer_organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE doclayer_batches
+    ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES doclayer_organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE doclayer_workflows
+    ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES doclayer_organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_doclayer_documents_owner ON doclayer_documents(owner_id);
+CREATE INDEX IF NOT EXISTS idx_doclayer_documents_org ON doclayer_documents(org_id);
+CREATE INDEX IF NOT EXISTS idx_doclayer_extractions_owner ON doclayer_extractions(owner_id);
+CREATE INDEX IF NOT EXISTS idx_doclayer_extractions_org ON doclayer_extractions(org_id);
+CREATE INDEX IF NOT EXISTS idx_doclayer_batches_owner ON doclayer_batches(owner_id);
+CREATE INDEX IF NOT EXISTS idx_doclayer_batches_org ON doclayer_batches(org_id);
+CREATE INDEX IF NOT EXISTS idx_doclayer_workflows_owner ON doclayer_workflows(owner_id);
+CREATE INDEX IF NOT EXISTS idx_doclayer_workflows_org ON doclayer_workflows(org_id);
+
+-- ============================================================================
+-- Access Helpers
+-- ============================================================================
+
+-- SECURITY DEFINER so policies can check membership without recursing into
+-- the RLS of doclayer_org_members
+CREATE OR REPLACE FUNCTION doclayer_is_org_member(p_org_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM doclayer_org_members
+        WHERE org_id = p_org_id AND user_id = auth.uid()
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION doclayer_can_access(p_owner_id UUID, p_org_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT (p_owner_id IS NOT NULL AND p_owner_id = auth.uid())
+        OR (p_org_id IS NOT NULL AND doclayer_is_org_member(p_org_id));
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- Inherited Ownership
+-- ============================================================================
+
+-- Extractions and workflows are written by the webhook handler, which does not
+-- know the owner; they take it from their document
+CREATE OR REPLACE FUNCTION inherit_doclayer_document_owner()
+RETURNS TRIGGER AS $$
+DECLARE
+    parent RECORD;
+BEGIN
+    IF NEW.owner_id IS NOT NULL OR NEW.org_id IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_TABLE_NAME = 'doclayer_extractions' THEN
+        SELECT owner_id, org_id INTO parent FROM doclayer_documents WHERE id = NEW.document_id;
+    ELSE
+        SELECT owner_id, org_id INTO parent FROM doclayer_documents
+        WHERE doclayer_document_id = NEW.document_id
+        LIMIT 1;
+    END IF;
+
+    IF FOUND THEN
+        NEW.owner_id := parent.owner_id;
+        NEW.org_id := parent.org_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_doclayer_extractions_owner ON doclayer_extractions;
+CREATE TRIGGER trigger_doclayer_extractions_owner
+    BEFORE INSERT ON doclayer_extractions
+    FOR EACH ROW
+    EXECUTE FUNCTION inherit_doclayer_document_owner();
+
+DROP TRIGGER IF EXISTS trigger_doclayer_workflows_owner ON doclayer_workflows;
+CREATE TRIGGER trigger_doclayer_workflows_owner
+    BEFORE INSERT OR UPDATE OF document_id ON doclayer_workflows
+    FOR EACH ROW
+    EXECUTE FUNCTION inherit_doclayer_document_owner();
+
+-- A webhook can create the document row before the upload stamps its owner;
+-- pass the owner on to rows that were synced in the meantime
+CREATE OR REPLACE FUNCTION propagate_doclayer_document_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE doclayer_extractions
+    SET owner_id = NEW.owner_id, org_id = NEW.org_id
+    WHERE document_id = NEW.id;
+
+    IF NEW.doclayer_document_id IS NOT NULL THEN
+        UPDATE doclayer_workflows
+        SET owner_id = NEW.owner_id, org_id = NEW.org_id
+        WHERE document_id = NEW.doclayer_document_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_doclayer_documents_owner ON doclayer_documents;
+CREATE TRIGGER trigger_doclayer_documents_owner
+    AFTER UPDATE OF owner_id, org_id ON doclayer_documents
+    FOR EACH ROW
+    WHEN (NEW.owner_id IS DISTINCT FROM OLD.owner_id OR NEW.org_id IS DISTINCT FROM OLD.org_id)
+    EXECUTE FUNCTION propagate_doclayer_document_owner();
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Authenticated users can view documents" ON doclayer_documents;
+DROP POLICY IF EXISTS "Authenticated users can insert documents" ON doclayer_documents;
+DROP POLICY IF EXISTS "Authenticated users can view webhook events" ON doclayer_webhook_events;
+DROP POLICY IF EXISTS "Authenticated users can view batches" ON doclayer_batches;
+DROP POLICY IF EXISTS "Authenticated users can view workflows" ON doclayer_workflows;
+DROP POLICY IF EXISTS "Authenticated users can view chunks" ON doclayer_chunks;
+
+ALTER TABLE doclayer_extractions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE doclayer_organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE doclayer_org_members ENABLE ROW LEVEL SECURITY;
+
+-- Service role full access
+CREATE POLICY "Service role has full access to extractions"
+    ON doclayer_extractions FOR ALL TO service_role
+    USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to organizations"
+    ON doclayer_organizations FOR ALL TO service_role
+    USING (true) WITH CHECK (true);
+
+CREATE POLICY "Service role has full access to org members"
+    ON doclayer_org_members FOR ALL TO service_role
+    USING (true) WITH CHECK (true);
+
+-- Owners and organization members read access
+CREATE POLICY "Users can view their documents"
+    ON doclayer_documents FOR SELECT TO authenticated
+    USING (doclayer_can_access(owner_id, org_id));
+
+CREATE POLICY "Users can insert their own documents"
+    ON doclayer_documents FOR INSERT TO authenticated
+    WITH CHECK (owner_id = auth.uid() AND (org_id IS NULL OR doclayer_is_org_member(org_id)));
+
+CREATE POLICY "Users can view their extractions"
+    ON doclayer_extractions FOR SELECT TO authenticated
+    USING (doclayer_can_access(owner_id, org_id));
+
+CREATE POLICY "Users can view their batches"
+    ON doclayer_batches FOR SELECT TO authenticated
+    USING (doclayer_can_access(owner_id, org_id));
+
+CREATE POLICY "Users can view their workflows"
+    ON doclayer_workflows FOR SELECT TO authenticated
+    USING (doclayer_can_access(owner_id, org_id));
+
+CREATE POLICY "Users can view chunks of their documents"
+    ON doclayer_chunks FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM doclayer_documents d
+        WHERE d.id = doclayer_chunks.document_id
+            AND doclayer_can_access(d.owner_id, d.org_id)
+    ));
+
+CREATE POLICY "Members can view their organizations"
+    ON doclayer_organizations FOR SELECT TO authenticated
+    USING (doclayer_is_org_member(id));
+
+CREATE POLICY "Members can view their organization's members"
+    ON doclayer_org_members FOR SELECT TO authenticated
+    USING (doclayer_is_org_member(org_id));
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON TABLE doclayer_organizations IS 'Organizations whose members share access to documents';
+COMMENT ON TABLE doclayer_org_members IS 'Organization membership; managed with the service role';
+COMMENT ON COLUMN doclayer_documents.owner_id IS 'User who uploaded the document';
+COMMENT ON COLUMN doclayer_documents.org_id IS 'Organization the document is shared with, if any';
+COMMENT ON FUNCTION doclayer_can_access(UUID, UUID) IS
+    'True when the current user owns the row or is a member of its organization';
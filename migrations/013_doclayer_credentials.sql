@@ -0,0 +1,199 @@
+-- Organization-scoped Doclayer credentials
+-- Maps organizations and/or Doclayer projects to their own Doclayer API key
+-- and webhook signing secret, so tenants can use separate Doclayer accounts
+-- and billing. The secrets themselves are stored encrypted in Supabase Vault;
+-- this table only holds references to them. Requires migrations/012.
+--
+-- Credentials are resolved most specific first: organization + project, then
+-- project, then organization. Without a match the Edge Functions fall back to
+-- the global DOCLAYER_API_KEY.
+
+-- ============================================================================
+-- Credentials Table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS doclayer_credentials (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    org_id UUID REFERENCES doclayer_organizations(id) ON DELETE CASCADE,
+    project_id TEXT,
+
+    -- vault.secrets references
+    api_key_secret_id UUID NOT NULL,
+    webhook_secret_id UUID,
+
+    base_url TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CHECK (org_id IS NOT NULL OR project_id IS NOT NULL)
+);
+
+-- One credential per organization/project combination (NULLs included)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_doclayer_credentials_scope ON doclayer_credentials(
+    COALESCE(org_id, '00000000-0000-0000-0000-000000000000'::UUID),
+    COALESCE(project_id, '')
+);
+CREATE INDEX IF NOT EXISTS idx_doclayer_credentials_project ON doclayer_credentials(project_id);
+
+DROP TRIGGER IF EXISTS trigger_doclayer_credentials_updated_at ON doclayer_credentials;
+CREATE TRIGGER trigger_doclayer_credentials_updated_at
+    BEFORE UPDATE ON doclayer_credentials
+    FOR EACH ROW
+    EXECUTE FUNCTION update_doclayer_updated_at();
+
+ALTER TABLE doclayer_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to credentials"
+    ON doclayer_credentials FOR ALL TO service_role
+    USING (true) WITH CHECK (true);
+
+-- ============================================================================
+-- Tenant Columns
+-- ============================================================================
+
+-- Billing events now belong to the organization whose account they concern
+ALTER TABLE doclayer_billing_alerts
+    ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES doclayer_organizations(id) ON DELETE CASCADE;
+
+ALTER TABLE doclayer_usage_reports
+    ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES doclayer_organizations(id) ON DELETE CASCADE;
+
+-- Tenant a delivery was routed to, reused when it is replayed
+ALTER TABLE doclayer_webhook_events
+    ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES doclayer_organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_doclayer_billing_alerts_org ON doclayer_billing_alerts(org_id);
+CREATE INDEX IF NOT EXISTS idx_doclayer_usage_reports_org ON doclayer_usage_reports(org_id);
+
+DROP POLICY IF EXISTS "Authenticated users can view billing_alerts" ON doclayer_billing_alerts;
+DROP POLICY IF EXISTS "Authenticated users can view usage_reports" ON doclayer_usage_reports;
+
+CREATE POLICY "Members can view their organization's billing_alerts"
+    ON doclayer_billing_alerts FOR SELECT TO authenticated
+    USING (org_id IS NOT NULL AND doclayer_is_org_member(org_id));
+
+CREATE POLICY "Members can view their organization's usage_reports"
+    ON doclayer_usage_reports FOR SELECT TO authenticated
+    USING (org_id IS NOT NULL AND doclayer_is_org_member(org_id));
+
+-- ============================================================================
+-- Credential Functions
+-- ============================================================================
+
+-- Store (or replace) the credentials of an organization and/or project.
+-- Passing NULL for p_webhook_secret keeps the current webhook secret.
+CREATE OR REPLACE FUNCTION set_doclayer_credentials(
+    p_org_id UUID,
+    p_project_id TEXT,
+    p_api_key TEXT,
+    p_webhook_secret TEXT DEFAULT NULL,
+    p_base_url TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    existing doclayer_credentials%ROWTYPE;
+    scope TEXT := COALESCE(p_org_id::TEXT, '*') || '/' || COALESCE(p_project_id, '*');
+    webhook_secret UUID;
+    credential_id UUID;
+BEGIN
+    SELECT * INTO existing FROM doclayer_credentials
+    WHERE org_id IS NOT DISTINCT FROM p_org_id
+        AND project_id IS NOT DISTINCT FROM p_project_id;
+
+    IF FOUND THEN
+        PERFORM vault.update_secret(existing.api_key_secret_id, p_api_key);
+        webhook_secret := existing.webhook_secret_id;
+
+        IF p_webhook_secret IS NOT NULL AND webhook_secret IS NOT NULL THEN
+            PERFORM vault.update_secret(webhook_secret, p_webhook_secret);
+        ELSIF p_webhook_secret IS NOT NULL THEN
+            webhook_secret := vault.create_secret(
+                p_webhook_secret, 'doclayer_webhook_secret:' || existing.id, 'Doclayer webhook secret for ' || scope
+            );
+        END IF;
+
+        UPDATE doclayer_credentials
+        SET webhook_secret_id = webhook_secret, base_url = p_base_url
+        WHERE id = existing.id;
+
+        RETURN existing.id;
+    END IF;
+
+    credential_id := gen_random_uuid();
+
+    IF p_webhook_secret IS NOT NULL THEN
+        webhook_secret := vault.create_secret(
+            p_webhook_secret, 'doclayer_webhook_secret:' || credential_id, 'Doclayer webhook secret for ' || scope
+        );
+    END IF;
+
+    INSERT INTO doclayer_credentials (id, org_id, project_id, api_key_secret_id, webhook_secret_id, base_url)
+    VALUES (
+        credential_id,
+        p_org_id,
+        p_project_id,
+        vault.create_secret(p_api_key, 'doclayer_api_key:' || credential_id, 'Doclayer API key for ' || scope),
+        webhook_secret,
+        p_base_url
+    );
+
+    RETURN credential_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Decrypted credentials, most specific match first. With p_credential_id,
+-- returns exactly that credential (used for webhook routing).
+CREATE OR REPLACE FUNCTION resolve_doclayer_credentials(
+    p_org_id UUID DEFAULT NULL,
+    p_project_id TEXT DEFAULT NULL,
+    p_credential_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    credential_id UUID,
+    org_id UUID,
+    project_id TEXT,
+    api_key TEXT,
+    base_url TEXT
+) AS $$
+    SELECT c.id, c.org_id, c.project_id, s.decrypted_secret, c.base_url
+    FROM doclayer_credentials c
+    JOIN vault.decrypted_secrets s ON s.id = c.api_key_secret_id
+    WHERE CASE
+        WHEN p_credential_id IS NOT NULL THEN c.id = p_credential_id
+        ELSE (c.org_id IS NULL OR c.org_id = p_org_id)
+            AND (c.project_id IS NULL OR c.project_id = p_project_id)
+    END
+    ORDER BY (c.org_id IS NOT NULL AND c.project_id IS NOT NULL) DESC, (c.project_id IS NOT NULL) DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Every webhook signing secret, for verifying deliveries of all tenants
+CREATE OR REPLACE FUNCTION list_doclayer_webhook_secrets()
+RETURNS TABLE (
+    credential_id UUID,
+    org_id UUID,
+    secret TEXT
+) AS $$
+    SELECT c.id, c.org_id, s.decrypted_secret
+    FROM doclayer_credentials c
+    JOIN vault.decrypted_secrets s ON s.id = c.webhook_secret_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Secrets are only readable with the service role
+REVOKE EXECUTE ON FUNCTION set_doclayer_credentials(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_doclayer_credentials(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION list_doclayer_webhook_secrets() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_doclayer_credentials(UUID, TEXT, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION resolve_doclayer_credentials(UUID, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION list_doclayer_webhook_secrets() TO service_role;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON TABLE doclayer_credentials IS 'Doclayer API credentials per organization and/or project; secrets live in Supabase Vault';
+COMMENT ON COLUMN doclayer_credentials.api_key_secret_id IS 'vault.secrets ID of the Doclayer API key';
+COMMENT ON COLUMN doclayer_credentials.webhook_secret_id IS 'vault.secrets ID of the webhook signing secret of this account';
+COMMENT ON COLUMN doclayer_webhook_events.org_id IS 'Organization the delivery was routed to';
+COMMENT ON FUNCTION resolve_doclayer_credentials(UUID, TEXT, UUID) IS
+    'Most specific Doclayer credentials for an organization and project, decrypted from Vault';
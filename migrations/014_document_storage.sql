@@ -0,0 +1,60 @@
+-- Original files in Supabase Storage
+-- upload-document stores every file in a private Storage bucket before
+-- ingesting it, so the original can be shown next to its extractions and
+-- re-submitted later (e.g. with a different agent). Requires migrations/012.
+--
+-- The bucket below is the default; if you set DOCLAYER_STORAGE_BUCKET to
+-- another bucket, create it and copy the storage policies for it.
+
+-- ============================================================================
+-- Document Columns
+-- ============================================================================
+
+ALTER TABLE doclayer_documents
+    ADD COLUMN IF NOT EXISTS storage_bucket TEXT,
+    ADD COLUMN IF NOT EXISTS storage_path TEXT,
+    ADD COLUMN IF NOT EXISTS reprocessed_from UUID REFERENCES doclayer_documents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_doclayer_documents_storage ON doclayer_documents(storage_bucket, storage_path);
+CREATE INDEX IF NOT EXISTS idx_doclayer_documents_reprocessed_from ON doclayer_documents(reprocessed_from);
+
+-- ============================================================================
+-- Bucket
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('doclayer-documents', 'doclayer-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- Storage Policies
+-- ============================================================================
+
+-- Originals are readable by everyone who can read their document
+CREATE POLICY "Users can read originals of their documents"
+    ON storage.objects FOR SELECT TO authenticated
+    USING (
+        bucket_id = 'doclayer-documents'
+        AND EXISTS (
+            SELECT 1 FROM doclayer_documents d
+            WHERE d.storage_bucket = storage.objects.bucket_id
+                AND d.storage_path = storage.objects.name
+                AND doclayer_can_access(d.owner_id, d.org_id)
+        )
+    );
+
+-- Users may upload directly into their own folder (<user id>/...)
+CREATE POLICY "Users can upload originals to their folder"
+    ON storage.objects FOR INSERT TO authenticated
+    WITH CHECK (
+        bucket_id = 'doclayer-documents'
+        AND (storage.foldername(name))[1] = auth.uid()::TEXT
+    );
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_documents.storage_bucket IS 'Storage bucket holding the original file';
+COMMENT ON COLUMN doclayer_documents.storage_path IS 'Path of the original file in storage_bucket';
+COMMENT ON COLUMN doclayer_documents.reprocessed_from IS 'Document whose stored original was re-submitted to create this one';
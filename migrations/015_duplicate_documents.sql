@@ -0,0 +1,29 @@
+-- Duplicate detection
+-- upload-document stores the SHA-256 of every upload in checksum before
+-- ingesting it, so a file that was already processed in the same project is
+-- not processed (and billed) again. A duplicate upload either returns the
+-- existing document or gets its own row that links to it through
+-- duplicate_of. Requires migrations/014.
+
+-- ============================================================================
+-- Document Columns
+-- ============================================================================
+
+-- Linked duplicates have no ingestion job of their own
+ALTER TABLE doclayer_documents
+    ALTER COLUMN doclayer_job_id DROP NOT NULL;
+
+ALTER TABLE doclayer_documents
+    ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES doclayer_documents(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_doclayer_documents_checksum
+    ON doclayer_documents(project_id, checksum)
+    WHERE status = 'completed' AND duplicate_of IS NULL;
+CREATE INDEX IF NOT EXISTS idx_doclayer_documents_duplicate_of ON doclayer_documents(duplicate_of);
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_documents.checksum IS 'SHA-256 of the file (hex)';
+COMMENT ON COLUMN doclayer_documents.duplicate_of IS 'Processed document with the same contents; its extractions apply to this one';
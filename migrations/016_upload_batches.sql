@@ -0,0 +1,82 @@
+-- Upload batches
+-- upload-document accepts several files (or ZIP archives) at once and groups
+-- them in a doclayer_batches row created before the first file is ingested.
+-- The batch's counts and status follow its documents' statuses, so the UI can
+-- watch a batch through realtime like one uploaded through the Doclayer API.
+-- Requires migrations/015.
+
+-- ============================================================================
+-- Columns
+-- ============================================================================
+
+ALTER TABLE doclayer_documents
+    ADD COLUMN IF NOT EXISTS upload_batch_id UUID REFERENCES doclayer_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_doclayer_documents_upload_batch ON doclayer_documents(upload_batch_id);
+
+-- Files that never became a document in the batch: rejected ones (invalid or
+-- failed to upload) and skipped duplicates of already processed documents
+ALTER TABLE doclayer_batches
+    ADD COLUMN IF NOT EXISTS rejected_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS skipped_count INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- Batch Progress
+-- ============================================================================
+
+-- Recount a batch from its documents; it completes once every file has
+-- settled, and only fails when none of them succeeded
+CREATE OR REPLACE FUNCTION refresh_doclayer_upload_batch(p_batch_id UUID)
+RETURNS VOID AS $$
+    UPDATE doclayer_batches b
+    SET
+        completed_count = b.skipped_count + counts.completed,
+        failed_count = b.rejected_count + counts.failed,
+        status = CASE
+            WHEN b.skipped_count + b.rejected_count + counts.completed + counts.failed < b.total_documents
+                THEN b.status
+            WHEN b.skipped_count + counts.completed > 0 THEN 'completed'
+            ELSE 'failed'
+        END,
+        completed_at = CASE
+            WHEN b.skipped_count + b.rejected_count + counts.completed + counts.failed < b.total_documents
+                THEN b.completed_at
+            ELSE COALESCE(b.completed_at, NOW())
+        END,
+        updated_at = NOW()
+    FROM (
+        SELECT
+            COUNT(*) FILTER (WHERE status = 'completed') AS completed,
+            COUNT(*) FILTER (WHERE status IN ('failed', 'cancelled')) AS failed
+        FROM doclayer_documents
+        WHERE upload_batch_id = p_batch_id
+    ) counts
+    WHERE b.id = p_batch_id;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION refresh_doclayer_document_batch()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_doclayer_upload_batch(NEW.upload_batch_id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_refresh_doclayer_document_batch ON doclayer_documents;
+CREATE TRIGGER trigger_refresh_doclayer_document_batch
+    AFTER INSERT OR UPDATE OF status ON doclayer_documents
+    FOR EACH ROW
+    WHEN (NEW.upload_batch_id IS NOT NULL)
+    EXECUTE FUNCTION refresh_doclayer_document_batch();
+
+REVOKE EXECUTE ON FUNCTION refresh_doclayer_upload_batch(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_doclayer_upload_batch(UUID) TO service_role;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_documents.upload_batch_id IS 'Upload batch the document was submitted in';
+COMMENT ON COLUMN doclayer_batches.rejected_count IS 'Files of an upload batch that were rejected or failed to upload';
+COMMENT ON COLUMN doclayer_batches.skipped_count IS 'Files of an upload batch skipped as duplicates of processed documents';
+COMMENT ON FUNCTION refresh_doclayer_upload_batch(UUID) IS 'Recount an upload batch from its documents and complete it once all files have settled';
@@ -0,0 +1,16 @@
+-- Document sources
+-- upload-document can ingest a document from a URL instead of an uploaded
+-- file; the URL is kept on the document row. Requires migrations/014.
+
+-- ============================================================================
+-- Document Columns
+-- ============================================================================
+
+ALTER TABLE doclayer_documents
+    ADD COLUMN IF NOT EXISTS source_url TEXT;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_documents.source_url IS 'URL the original file was downloaded from';
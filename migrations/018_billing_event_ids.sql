@@ -0,0 +1,30 @@
+-- Idempotent billing events
+-- Billing alerts and usage reports have no natural key, so a redelivered or
+-- replayed billing.* event used to insert a second row. Rows now carry the
+-- delivery ID of their event and are upserted on it.
+
+-- ============================================================================
+-- Event IDs
+-- ============================================================================
+
+ALTER TABLE doclayer_billing_alerts
+    ADD COLUMN IF NOT EXISTS event_id TEXT;
+ALTER TABLE doclayer_usage_reports
+    ADD COLUMN IF NOT EXISTS event_id TEXT;
+
+ALTER TABLE doclayer_billing_alerts
+    DROP CONSTRAINT IF EXISTS doclayer_billing_alerts_event_id_key;
+ALTER TABLE doclayer_billing_alerts
+    ADD CONSTRAINT doclayer_billing_alerts_event_id_key UNIQUE (event_id);
+
+ALTER TABLE doclayer_usage_reports
+    DROP CONSTRAINT IF EXISTS doclayer_usage_reports_event_id_key;
+ALTER TABLE doclayer_usage_reports
+    ADD CONSTRAINT doclayer_usage_reports_event_id_key UNIQUE (event_id);
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_billing_alerts.event_id IS 'Delivery ID (x-webhook-delivery) of the event that created the alert';
+COMMENT ON COLUMN doclayer_usage_reports.event_id IS 'Delivery ID (x-webhook-delivery) of the event that created the report';
@@ -0,0 +1,46 @@
+-- Retried jobs
+-- ingest.retry restarts a failed job under the same job ID, so the row that
+-- recorded the failure receives processing and completed events again. A
+-- failed row now accepts events newer than the failure; completed and
+-- cancelled rows stay final. Requires migrations/008.
+
+-- ============================================================================
+-- Status Transitions
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_doclayer_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Only updates that record a new event time come from webhook events;
+    -- redeliveries of the last applied event and manual edits pass through
+    IF NEW.last_event_at IS NOT DISTINCT FROM OLD.last_event_at THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.last_event_at < OLD.last_event_at THEN
+        RETURN NULL;
+    END IF;
+
+    -- A retried job starts over from failed
+    IF OLD.status = 'failed'
+        AND OLD.last_event_at IS NOT NULL
+        AND NEW.last_event_at > OLD.last_event_at
+    THEN
+        RETURN NEW;
+    END IF;
+
+    IF doclayer_status_rank(NEW.status) < doclayer_status_rank(OLD.status)
+        OR doclayer_status_rank(OLD.status) = 2
+    THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON FUNCTION enforce_doclayer_status_transition() IS 'Skips webhook updates that are older than the last applied event or would move the status backwards; failed rows accept newer events of a retried job';
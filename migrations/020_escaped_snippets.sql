@@ -0,0 +1,108 @@
+-- Escaped search snippets
+-- search_doclayer_text returned snippets with <mark> tags inserted into the
+-- raw document text, so markup in a document was rendered along with them.
+-- Snippets are now built from HTML-escaped content and are safe to render
+-- as HTML; the content column stays unescaped. Requires migrations/011.
+
+-- ============================================================================
+-- Search Function
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION doclayer_escape_html(input TEXT)
+RETURNS TEXT AS $$
+    SELECT replace(replace(replace(replace(replace(input,
+        '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Keyword search (web search syntax: quotes, OR, -exclusion) over chunk
+-- content and extraction source text, ranked with ts_rank_cd and returned
+-- with escaped, <mark>-highlighted snippets. Runs with the caller's permissions.
+CREATE OR REPLACE FUNCTION search_doclayer_text(
+    query TEXT,
+    filter_project_id TEXT DEFAULT NULL,
+    match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+    source TEXT,
+    id UUID,
+    document_id UUID,
+    doclayer_document_id TEXT,
+    doclayer_chunk_id TEXT,
+    content TEXT,
+    snippet TEXT,
+    rank REAL,
+    page_number INTEGER,
+    metadata JSONB
+) AS $$
+    WITH q AS (
+        SELECT websearch_to_tsquery('english', query) AS tsq
+    ),
+    matches AS (
+        SELECT
+            'chunk'::TEXT AS source,
+            c.id,
+            c.document_id,
+            d.doclayer_document_id,
+            c.doclayer_chunk_id,
+            c.content,
+            ts_rank_cd(c.content_tsv, q.tsq) AS rank,
+            c.page_number,
+            c.metadata
+        FROM doclayer_chunks c
+        JOIN doclayer_documents d ON d.id = c.document_id
+        CROSS JOIN q
+        WHERE c.content_tsv @@ q.tsq
+            AND (filter_project_id IS NULL OR d.project_id = filter_project_id)
+
+        UNION ALL
+
+        SELECT
+            'extraction'::TEXT,
+            e.id,
+            e.document_id,
+            d.doclayer_document_id,
+            NULL,
+            e.source_text,
+            ts_rank_cd(e.source_text_tsv, q.tsq),
+            e.page_number,
+            jsonb_build_object(
+                'extraction_type', e.extraction_type,
+                'extraction_key', e.extraction_key,
+                'confidence', e.confidence
+            )
+        FROM doclayer_extractions e
+        JOIN doclayer_documents d ON d.id = e.document_id
+        CROSS JOIN q
+        WHERE e.source_text_tsv @@ q.tsq
+            AND (filter_project_id IS NULL OR d.project_id = filter_project_id)
+    ),
+    top AS (
+        SELECT * FROM matches ORDER BY rank DESC LIMIT match_count
+    )
+    -- Highlight only the rows returned; ts_headline is expensive. The content
+    -- is escaped first so only the <mark> tags are markup
+    SELECT
+        top.source,
+        top.id,
+        top.document_id,
+        top.doclayer_document_id,
+        top.doclayer_chunk_id,
+        top.content,
+        ts_headline(
+            'english', doclayer_escape_html(top.content), q.tsq,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2'
+        ),
+        top.rank,
+        top.page_number,
+        top.metadata
+    FROM top
+    CROSS JOIN q
+    ORDER BY top.rank DESC;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON FUNCTION doclayer_escape_html(TEXT) IS 'Escape HTML special characters';
+COMMENT ON FUNCTION search_doclayer_text(TEXT, TEXT, INTEGER) IS 'Ranked keyword search over chunk content and extraction source text with HTML-escaped, highlighted snippets';
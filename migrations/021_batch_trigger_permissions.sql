@@ -0,0 +1,24 @@
+-- Upload batch trigger permissions
+-- The trigger that recounts a document's upload batch ran with the
+-- permissions of the user changing the document, but refresh_doclayer_upload_batch
+-- is only executable by the service role, so status updates made by signed-in
+-- users failed. The trigger function now runs as its owner. Requires
+-- migrations/016.
+
+-- ============================================================================
+-- Batch Progress
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION refresh_doclayer_document_batch()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_doclayer_upload_batch(NEW.upload_batch_id);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON FUNCTION refresh_doclayer_document_batch() IS 'Recount the upload batch of a changed document; runs as its owner so any user who may change the document can trigger it';
@@ -0,0 +1,12 @@
+-- Documents are written by the service role only
+-- Every document row is created by upload-document or the webhook handler,
+-- both with the service role. The client INSERT policy from migrations/012
+-- let signed-in users create rows with any job ID, storage path, status or
+-- checksum, e.g. to fake completed documents that duplicate detection then
+-- matches (migrations/015). Requires migrations/012.
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can insert their own documents" ON doclayer_documents;
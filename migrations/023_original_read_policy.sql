@@ -0,0 +1,25 @@
+-- Originals are only readable from their uploader's folder
+-- The read policy from migrations/014 granted access to any object named by
+-- an accessible document row, so a row pointing at someone else's path was
+-- enough to read their original. Objects are stored under the uploader's
+-- folder (<owner id>/..., shared/... without an owner), and a document now
+-- only grants access to the object in its owner's folder. Requires
+-- migrations/014.
+
+-- ============================================================================
+-- Storage Policies
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can read originals of their documents" ON storage.objects;
+CREATE POLICY "Users can read originals of their documents"
+    ON storage.objects FOR SELECT TO authenticated
+    USING (
+        bucket_id = 'doclayer-documents'
+        AND EXISTS (
+            SELECT 1 FROM doclayer_documents d
+            WHERE d.storage_bucket = storage.objects.bucket_id
+                AND d.storage_path = storage.objects.name
+                AND (storage.foldername(storage.objects.name))[1] = COALESCE(d.owner_id::TEXT, 'shared')
+                AND doclayer_can_access(d.owner_id, d.org_id)
+        )
+    );
@@ -0,0 +1,24 @@
+-- Signed event checksums
+-- The x-webhook-delivery header that deliveries are keyed on is not covered
+-- by the signature, so a captured delivery could be re-sent under a new
+-- delivery ID and processed again. Events now store the SHA-256 of the
+-- signed content (<timestamp>.<body>), which only the sender can produce
+-- anew. Requires migrations/006.
+
+-- ============================================================================
+-- Checksums
+-- ============================================================================
+
+ALTER TABLE doclayer_webhook_events
+    ADD COLUMN IF NOT EXISTS signed_checksum TEXT;
+
+ALTER TABLE doclayer_webhook_events
+    DROP CONSTRAINT IF EXISTS doclayer_webhook_events_signed_checksum_key;
+ALTER TABLE doclayer_webhook_events
+    ADD CONSTRAINT doclayer_webhook_events_signed_checksum_key UNIQUE (signed_checksum);
+
+-- ============================================================================
+-- Comments
+-- ============================================================================
+
+COMMENT ON COLUMN doclayer_webhook_events.signed_checksum IS 'SHA-256 of the signed content (<timestamp>.<body>) of a verified delivery';
@@ -0,0 +1,31 @@
+// Webhook handling shared by doclayer-webhook and replay-webhook-events, so a
+// replayed event runs through the same hooks as a live delivery
+
+import type { DoclayerWebhookHandlerOptions } from "../../lib/webhook-handler.ts";
+
+export type WebhookDispatchOptions = Pick<
+  DoclayerWebhookHandlerOptions,
+  "apiKey" | "baseUrl" | "syncChunks" | "storeEmbeddings" | "embed" | "handlers" | "on" | "middleware"
+>;
+
+// The built-in handlers sync every event into the doclayer_* tables; add
+// custom behavior with `on` (per event) or `middleware` (all events) instead
+// of editing the handlers, e.g.
+//
+//   on: {
+//     "document.processing.completed": async (data, context) => {
+//       if (context.dryRun) return;
+//       await notifySlack(`Document ${data.document_id} is ready`);
+//     },
+//   },
+//
+// Hooks also run for replays; skip side effects when `context.dryRun` is set.
+// To embed chunks yourself for local vector search, pass `embed`:
+//
+//   embed: (texts) => embedWithOpenAI(texts),
+export const webhookOptions: WebhookDispatchOptions = {
+  apiKey: Deno.env.get("DOCLAYER_API_KEY"),
+  baseUrl: Deno.env.get("DOCLAYER_API_URL"),
+  syncChunks: Deno.env.get("DOCLAYER_SYNC_CHUNKS") !== "false",
+  storeEmbeddings: Deno.env.get("DOCLAYER_SYNC_EMBEDDINGS") === "true",
+};
@@ -0,0 +1,226 @@
+// Replay stored Doclayer webhook events
+// Re-runs payloads from doclayer_webhook_events through the webhook handlers,
+// e.g. after fixing the cause of failed or dead-lettered deliveries
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+import { parseWebhookEvent, timingSafeEqual } from "../../lib/webhooks.ts";
+import { resolveWebhookTenant } from "../../lib/credentials.ts";
+import {
+  describeWebhookError,
+  dispatchWebhookEvent,
+  type WebhookRowChange,
+} from "../../lib/webhook-dispatcher.ts";
+import { webhookOptions } from "../_shared/webhook-options.ts";
+
+interface ReplayRequest {
+  /** doclayer_webhook_events.id values */
+  ids?: string[];
+  /** Delivery IDs (doclayer_webhook_events.event_id) */
+  event_ids?: string[];
+  event_type?: string | string[];
+  /** received_at range (inclusive) */
+  from?: string;
+  to?: string;
+  /** Only events that were never processed successfully */
+  unprocessed?: boolean;
+  /** Maximum events to replay (default 100, max 1000) */
+  limit?: number;
+  /** Report the row changes without writing anything */
+  dry_run?: boolean;
+}
+
+interface StoredEvent {
+  id: string;
+  event_id: string | null;
+  event_type: string;
+  payload: unknown;
+  attempt_count: number | null;
+  secret_id: string | null;
+  org_id?: string | null;
+}
+
+interface ReplayResult {
+  id: string;
+  event_id: string | null;
+  event_type: string;
+  outcome: "replayed" | "would_replay" | "stale" | "unhandled" | "failed";
+  changes?: WebhookRowChange[];
+  error?: string;
+}
+
+const MAX_LIMIT = 1000;
+
+// Tenant deliveries are replayed with the credentials whose signing secret
+// verified them (migrations/013), like doclayer-webhook does
+const multiTenant = Deno.env.get("DOCLAYER_MULTI_TENANT") === "true";
+const EVENT_COLUMNS = multiTenant
+  ? "id, event_id, event_type, payload, attempt_count, secret_id, org_id"
+  : "id, event_id, event_type, payload, attempt_count, secret_id";
+
+serve(async (req: Request) => {
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  // Replays write with the service role, so only service-role callers may trigger them
+  const authHeader = req.headers.get("Authorization") ?? "";
+  if (!timingSafeEqual(authHeader, `Bearer ${supabaseServiceKey}`)) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  let body: ReplayRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Request body must be JSON" }, 400);
+  }
+
+  const hasFilter =
+    Boolean(body.ids?.length) ||
+    Boolean(body.event_ids?.length) ||
+    Boolean(body.event_type?.length) ||
+    Boolean(body.from) ||
+    Boolean(body.to) ||
+    body.unprocessed === true;
+  if (!hasFilter) {
+    return json(
+      { error: "Specify at least one of ids, event_ids, event_type, from, to or unprocessed" },
+      400
+    );
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const dryRun = body.dry_run === true;
+    const limit = Math.min(Math.max(body.limit ?? 100, 1), MAX_LIMIT);
+
+    // Deliveries that failed verification are never replayed
+    let query = supabase
+      .from("doclayer_webhook_events")
+      .select(EVENT_COLUMNS)
+      .neq("status", "rejected")
+      .order("received_at", { ascending: true })
+      .limit(limit);
+
+    if (body.ids?.length) query = query.in("id", body.ids);
+    if (body.event_ids?.length) query = query.in("event_id", body.event_ids);
+    if (body.event_type?.length) {
+      query = query.in("event_type", Array.isArray(body.event_type) ? body.event_type : [body.event_type]);
+    }
+    if (body.from) query = query.gte("received_at", body.from);
+    if (body.to) query = query.lte("received_at", body.to);
+    if (body.unprocessed) query = query.eq("processed", false);
+
+    const { data: rows, error } = await query.returns<StoredEvent[]>();
+    if (error) throw error;
+
+    // Replay in delivery order so later events win, as they did originally
+    const results: ReplayResult[] = [];
+    for (const row of rows ?? []) {
+      results.push(await replayEvent(supabase, row, dryRun));
+    }
+
+    const failed = results.filter((result) => result.outcome === "failed").length;
+    console.log(
+      `Replayed ${results.length} webhook event(s)${dryRun ? " (dry run)" : ""}, ${failed} failed`
+    );
+
+    return json({
+      success: failed === 0,
+      dry_run: dryRun,
+      matched: results.length,
+      failed,
+      results,
+    });
+  } catch (error) {
+    console.error("Replay error:", error);
+    return json({ error: "Replay failed", message: describeWebhookError(error).message }, 500);
+  }
+});
+
+async function replayEvent(
+  supabase: ReturnType<typeof createClient>,
+  row: StoredEvent,
+  dryRun: boolean
+): Promise<ReplayResult> {
+  const base = { id: row.id, event_id: row.event_id, event_type: row.event_type };
+
+  try {
+    // The stored event_type already reflects the x-webhook-event header
+    const event = parseWebhookEvent(JSON.stringify(row.payload), {
+      "x-webhook-event": row.event_type,
+    });
+
+    const tenant = multiTenant ? await resolveWebhookTenant(supabase, row.secret_id ?? undefined) : null;
+    if (row.org_id && !tenant) {
+      throw new Error(`Doclayer credentials of organization ${row.org_id} no longer exist`);
+    }
+
+    const { handled, stale, changes } = await dispatchWebhookEvent(supabase, event, {
+      ...webhookOptions,
+      apiKey: tenant?.apiKey ?? webhookOptions.apiKey,
+      baseUrl: tenant?.baseUrl ?? webhookOptions.baseUrl,
+      orgId: tenant?.orgId,
+      deliveryId: row.event_id ?? undefined,
+      dryRun,
+    });
+
+    if (!dryRun) {
+      await updateEventRow(supabase, row.id, {
+        processed: true,
+        processed_at: new Date().toISOString(),
+        status: stale ? "stale" : "processed",
+        error_message: null,
+        error_stack: null,
+        attempt_count: (row.attempt_count ?? 0) + 1,
+        last_attempt_at: new Date().toISOString(),
+      });
+    }
+
+    return {
+      ...base,
+      outcome: !handled ? "unhandled" : stale ? "stale" : dryRun ? "would_replay" : "replayed",
+      changes,
+    };
+  } catch (error) {
+    const { message, stack } = describeWebhookError(error);
+    console.error(`Replay of webhook event ${row.id} failed:`, error);
+
+    // A failed replay leaves the event failed; it is not dead-lettered again
+    if (!dryRun) {
+      await updateEventRow(supabase, row.id, {
+        status: "failed",
+        error_message: message,
+        error_stack: stack,
+        attempt_count: (row.attempt_count ?? 0) + 1,
+        last_attempt_at: new Date().toISOString(),
+      });
+    }
+
+    return { ...base, outcome: "failed", error: message };
+  }
+}
+
+async function updateEventRow(
+  supabase: ReturnType<typeof createClient>,
+  id: string,
+  values: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase.from("doclayer_webhook_events").update(values).eq("id", id);
+
+  if (error) {
+    console.error("Failed to update webhook event:", error);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
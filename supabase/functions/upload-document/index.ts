@@ -1,15 +1,53 @@
 // Upload Document to Doclayer via Supabase Edge Function
-// Example of using the Doclayer client to upload documents
+// Stores the original in Supabase Storage, then ingests it with the Doclayer
+// client. Several files or a ZIP archive are uploaded as one batch; instead
+// of a file, a source_url to download or a storage_path already in the bucket
+// can be sent. POST to /upload-document/reprocess to re-submit a stored original.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { DoclayerClient } from "../../lib/doclayer-client.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DoclayerClient, DoclayerDownloadError, downloadRemoteFile } from "../../lib/doclayer-client.ts";
+import { resolveDoclayerCredentials } from "../../lib/credentials.ts";
+import { isZipArchive, uploadBatch } from "../../lib/batch-upload.ts";
+import {
+  DEFAULT_DOCUMENT_BUCKET,
+  ingestFromStorage,
+  reprocessDocument,
+  uploadWithOriginal,
+  type DedupeMode,
+} from "../../lib/storage.ts";
+import {
+  UploadValidationError,
+  validateUpload,
+  type UploadValidationOptions,
+} from "../../lib/upload-validation.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Bucket for original files (see migrations/014_document_storage.sql)
+const storageBucket = Deno.env.get("DOCLAYER_STORAGE_BUCKET") || DEFAULT_DOCUMENT_BUCKET;
+
+// Upload limits; unset values use the validator's defaults (50 MB, PDF, Word, text and images)
+const uploadLimits: UploadValidationOptions = {
+  maxBytes: optionalNumber(Deno.env.get("DOCLAYER_UPLOAD_MAX_BYTES")),
+  allowedExtensions: optionalList(Deno.env.get("DOCLAYER_UPLOAD_ALLOWED_EXTENSIONS")),
+  allowedMimeTypes: optionalList(Deno.env.get("DOCLAYER_UPLOAD_ALLOWED_MIME_TYPES")),
+  maxPdfPages: optionalNumber(Deno.env.get("DOCLAYER_UPLOAD_MAX_PDF_PAGES")),
+};
+
+// Handling of files already processed in the project (see migrations/015);
+// a request can override it with the dedupe form field
+const DEDUPE_MODES: DedupeMode[] = ["skip", "link", "force"];
+const defaultDedupe = (Deno.env.get("DOCLAYER_UPLOAD_DEDUPE") || "skip") as DedupeMode;
+
+// Batch uploads (see migrations/016)
+const batchConcurrency = optionalNumber(Deno.env.get("DOCLAYER_UPLOAD_CONCURRENCY"));
+const maxBatchFiles = optionalNumber(Deno.env.get("DOCLAYER_UPLOAD_MAX_FILES"));
+const maxArchiveBytes = optionalNumber(Deno.env.get("DOCLAYER_UPLOAD_MAX_ARCHIVE_BYTES"));
+
 serve(async (req: Request) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -20,13 +58,10 @@ serve(async (req: Request) => {
     // Verify authentication
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
-    
+
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "Missing authorization header" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return json({ error: "Missing authorization header" }, 401);
     }
 
     const supabase = createClient(supabaseUrl, supabaseAnonKey, {
@@ -35,92 +70,272 @@ serve(async (req: Request) => {
 
     const { data: { user }, error: authError } = await supabase.auth.getUser();
     if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey);
+
+    if (new URL(req.url).pathname.endsWith("/reprocess")) {
+      return await handleReprocess(req, supabase, supabaseAdmin);
     }
 
     // Parse form data
     const formData = await req.formData();
-    const file = formData.get("file") as File;
+    const files = formData.getAll("file").filter((value): value is File => value instanceof File);
     const projectId = formData.get("project_id") as string;
     const agentId = formData.get("agent_id") as string | null;
+    const orgId = formData.get("org_id") as string | null;
+    const sourceUrl = formData.get("source_url") as string | null;
+    const storagePath = formData.get("storage_path") as string | null;
+    const dedupe = (formData.get("dedupe") as DedupeMode | null) || defaultDedupe;
 
-    if (!file) {
-      return new Response(
-        JSON.stringify({ error: "No file provided" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (files.length === 0 && !sourceUrl && !storagePath) {
+      return json({ error: "No file provided; send file, source_url or storage_path" }, 400);
     }
 
     if (!projectId) {
-      return new Response(
-        JSON.stringify({ error: "project_id is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return json({ error: "project_id is required" }, 400);
     }
 
-    // Initialize Doclayer client
-    const doclayerApiKey = Deno.env.get("DOCLAYER_API_KEY");
-    if (!doclayerApiKey) {
-      return new Response(
-        JSON.stringify({ error: "Doclayer API key not configured" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (!DEDUPE_MODES.includes(dedupe)) {
+      return json({ error: `dedupe must be one of ${DEDUPE_MODES.join(", ")}` }, 400);
     }
 
-    const doclayer = new DoclayerClient({
-      apiKey: doclayerApiKey,
-      baseUrl: Deno.env.get("DOCLAYER_API_URL") || "https://api.doclayer.ai",
-    });
+    // Documents shared with an organization must be uploaded by one of its members
+    if (orgId) {
+      const { data: membership } = await supabase
+        .from("doclayer_org_members")
+        .select("org_id")
+        .eq("org_id", orgId)
+        .eq("user_id", user.id)
+        .maybeSingle();
 
-    // Upload to Doclayer
-    const job = await doclayer.ingest.upload({
-      file,
-      projectId,
-      agentId: agentId || undefined,
-      filename: file.name,
-    });
+      if (!membership) {
+        return json({ error: "Not a member of this organization" }, 403);
+      }
+    }
 
-    // Optionally: Track in local database
-    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey);
+    const doclayer = await createDoclayer(supabaseAdmin, orgId, projectId);
+    if (!doclayer) {
+      return json({ error: "Doclayer API key not configured" }, 500);
+    }
 
-    await supabaseAdmin.from("doclayer_documents").insert({
-      doclayer_job_id: job.job_id,
-      filename: file.name,
-      file_type: file.type,
-      file_size_bytes: file.size,
-      status: "processing",
-      project_id: projectId,
-      agent_template_id: agentId,
-    });
+    // A file the browser uploaded to the bucket; users can only write to
+    // their own folder (migrations/014), so only that folder is accepted
+    if (storagePath) {
+      if (!storagePath.startsWith(`${user.id}/`) || storagePath.split("/").includes("..")) {
+        return json({ error: "storage_path must be in your own folder" }, 403);
+      }
+
+      const { job, documentId, path, duplicateOf } = await ingestFromStorage(supabaseAdmin, doclayer, {
+        path: storagePath,
+        projectId,
+        agentId: agentId || undefined,
+        bucket: storageBucket,
+        ownerId: user.id,
+        orgId: orgId || null,
+        validation: uploadLimits,
+        dedupe,
+      });
 
-    return new Response(
-      JSON.stringify({
+      return json({
         success: true,
         job_id: job.job_id,
+        document_id: documentId,
+        storage_path: path,
         status: job.status,
-        message: `Document "${file.name}" uploaded successfully`,
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+        duplicate_of: duplicateOf ?? null,
+      });
+    }
+
+    // Several files or an archive: validate and ingest each file on its own
+    // and report per-file results, so some files can succeed while others fail
+    if (files.length > 1 || (files.length === 1 && isZipArchive(files[0]))) {
+      const batch = await uploadBatch(supabaseAdmin, doclayer, {
+        files,
+        projectId,
+        agentId: agentId || undefined,
+        bucket: storageBucket,
+        ownerId: user.id,
+        orgId: orgId || null,
+        dedupe,
+        validation: uploadLimits,
+        concurrency: batchConcurrency,
+        maxFiles: maxBatchFiles,
+        maxArchiveBytes,
+      });
+
+      return json({
+        success: batch.failed < batch.total,
+        batch_id: batch.batchId,
+        total: batch.total,
+        uploaded: batch.uploaded,
+        duplicates: batch.duplicates,
+        failed: batch.failed,
+        files: batch.files.map((result) => ({
+          filename: result.filename,
+          archive: result.archive ?? null,
+          status: result.status,
+          job_id: result.jobId ?? null,
+          document_id: result.documentId ?? null,
+          duplicate_of: result.duplicateOf ?? null,
+          error: result.error ?? null,
+          code: result.code ?? null,
+        })),
+      });
+    }
+
+    // Download linked documents with the same size limit, refusing URLs whose
+    // hosts resolve to private network addresses. fetch resolves the host again
+    // when it connects, so this doesn't stop DNS rebinding; keep internal
+    // services unreachable from the function's network as well
+    const file = sourceUrl
+      ? await downloadRemoteFile(sourceUrl, { maxBytes: uploadLimits.maxBytes, resolveHost })
+      : files[0];
+
+    // Check size and type from the file's contents; file.type comes from the client
+    const validated = await validateUpload(file, uploadLimits);
+
+    // Store the original, upload it to Doclayer and track it in the local
+    // database, owned by the uploader so row level security only exposes it
+    // (and its realtime updates) to them and their organization. A file that
+    // was already processed returns (or links to) the existing document.
+    const { job, documentId, path, duplicateOf } = await uploadWithOriginal(supabaseAdmin, doclayer, {
+      file,
+      projectId,
+      agentId: agentId || undefined,
+      contentType: validated.mimeType,
+      bucket: storageBucket,
+      ownerId: user.id,
+      orgId: orgId || null,
+      dedupe,
+      sourceUrl: sourceUrl || undefined,
+    });
+
+    return json({
+      success: true,
+      job_id: job.job_id,
+      document_id: documentId,
+      storage_path: path,
+      status: job.status,
+      duplicate_of: duplicateOf ?? null,
+      message: duplicateOf
+        ? `Document "${file.name}" was already processed`
+        : `Document "${file.name}" uploaded successfully`,
+    });
   } catch (error) {
+    if (error instanceof UploadValidationError) {
+      return json({ error: error.message, code: error.code, ...error.details }, error.status);
+    }
+    if (error instanceof DoclayerDownloadError) {
+      return json({ error: error.message, code: error.code }, error.status);
+    }
+
     console.error("Upload error:", error);
 
-    return new Response(
-      JSON.stringify({
+    return json(
+      {
         error: "Upload failed",
         message: error instanceof Error ? error.message : "Unknown error",
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
+      },
+      500
     );
   }
 });
+
+// Re-submit the stored original of a document the user can access, e.g.
+// with { "document_id": "...", "agent_id": "legal.contract-analyzer" }
+async function handleReprocess(
+  req: Request,
+  supabase: SupabaseClient,
+  supabaseAdmin: SupabaseClient
+): Promise<Response> {
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  let body: { document_id?: string; agent_id?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Request body must be JSON" }, 400);
+  }
+
+  if (!body.document_id) {
+    return json({ error: "document_id is required" }, 400);
+  }
+
+  // Read through the user's client so row level security decides access
+  const { data: document } = await supabase
+    .from("doclayer_documents")
+    .select("id, org_id, project_id, storage_path")
+    .eq("id", body.document_id)
+    .maybeSingle();
+
+  if (!document) {
+    return json({ error: "Document not found" }, 404);
+  }
+  if (!document.storage_path) {
+    return json({ error: "Document has no stored original" }, 409);
+  }
+
+  const doclayer = await createDoclayer(supabaseAdmin, document.org_id, document.project_id);
+  if (!doclayer) {
+    return json({ error: "Doclayer API key not configured" }, 500);
+  }
+
+  const { job, documentId } = await reprocessDocument(supabaseAdmin, doclayer, document.id, {
+    agentId: body.agent_id,
+  });
+
+  return json({
+    success: true,
+    job_id: job.job_id,
+    document_id: documentId,
+    reprocessed_from: document.id,
+    status: job.status,
+  });
+}
+
+// Organizations and projects can use their own Doclayer account (migrations/013)
+async function createDoclayer(
+  supabaseAdmin: SupabaseClient,
+  orgId: string | null,
+  projectId: string | null
+): Promise<DoclayerClient | null> {
+  const credentials = Deno.env.get("DOCLAYER_MULTI_TENANT") === "true"
+    ? await resolveDoclayerCredentials(supabaseAdmin, { orgId, projectId })
+    : null;
+
+  const apiKey = credentials?.apiKey ?? Deno.env.get("DOCLAYER_API_KEY");
+  if (!apiKey) return null;
+
+  return new DoclayerClient({
+    apiKey,
+    baseUrl: credentials?.baseUrl || Deno.env.get("DOCLAYER_API_URL") || "https://api.doclayer.ai",
+  });
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+  return lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value ? Number(value) : undefined;
+}
+
+function optionalList(value: string | undefined): string[] | undefined {
+  return value ? value.split(",").map((item) => item.trim()).filter(Boolean) : undefined;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
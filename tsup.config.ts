@@ -5,6 +5,14 @@ export default defineConfig({
     index: 'lib/index.ts',
     'doclayer-client': 'lib/doclayer-client.ts',
     'use-doclayer-realtime': 'lib/use-doclayer-realtime.ts',
+    webhooks: 'lib/webhooks.ts',
+    'webhook-dispatcher': 'lib/webhook-dispatcher.ts',
+    'webhook-handler': 'lib/webhook-handler.ts',
+    search: 'lib/search.ts',
+    credentials: 'lib/credentials.ts',
+    storage: 'lib/storage.ts',
+    'upload-validation': 'lib/upload-validation.ts',
+    'batch-upload': 'lib/batch-upload.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,